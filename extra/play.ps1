@@ -4,6 +4,7 @@ param (
     [Parameter(Mandatory=$true)][string]$path, # audio file
     [string]$inputConfigPath, # MPlayer-style input.conf file
     [int]$ss = 0, # offset in seconds
+    [int]$volume = 100, # percentage
     [string]$thumbnailUrl = $null # displayed in System Media Transport Controls
 )
 
@@ -145,6 +146,7 @@ $playbackItem.ApplyDisplayProperties($displayProps)
 $player.Source = $playbackItem
 $player.AudioCategory = [Windows.Media.Playback.MediaPlayerAudioCategory]::Media
 $playbackSession.Position = [System.TimeSpan]::FromSeconds($ss)
+$player.Volume = $volume / 100
 $player.Play()
 $duration = $musicProps.Duration
 
@@ -182,6 +184,12 @@ try {
                 "speed_set" {
                     $playbackSession.PlaybackRate = $val
                 }
+                "volume" {
+                    $player.Volume = [Math]::Max(0, [Math]::Min($player.Volume + $val / 100, 1))
+                }
+                "mute" {
+                    $player.IsMuted = !$player.IsMuted
+                }
                 "pause" {
                     $state = $playbackSession.PlaybackState
                     if ($state -eq [Windows.Media.Playback.MediaPlaybackState]::Paused) {
@@ -0,0 +1,135 @@
+// Webview script of the "Now Playing" panel, see src/nowPlaying.ts.
+
+(function () {
+    'use strict';
+
+    const vscode = acquireVsCodeApi();
+
+    const $ = id => document.getElementById(id);
+    const seekBar = $('seek-bar');
+    const speedSelect = $('speed');
+
+    let capabilities = {};
+    let seeking = false; // while the seek bar is dragged
+
+    function toHHMMSS(sec) {
+        return new Date(sec * 1000).toISOString().substr(11, 8);
+    }
+
+    function renderEpisode(msg) {
+        const episode = msg.episode;
+        capabilities = msg.capabilities;
+        $('nothing-playing').hidden = !!episode;
+        $('player').hidden = !episode;
+        if (!episode) {
+            return;
+        }
+        $('title').textContent = episode.title;
+        $('podcast-title').textContent = episode.podcastTitle;
+        const cover = $('cover');
+        cover.hidden = !episode.thumbnailUrl;
+        if (episode.thumbnailUrl) {
+            cover.src = episode.thumbnailUrl;
+        }
+
+        seekBar.disabled = !capabilities.seek;
+        $('pause').disabled = !capabilities.pause;
+        $('skip-backward').disabled = !capabilities.skip;
+        $('skip-forward').disabled = !capabilities.skip;
+
+        speedSelect.disabled = !capabilities.speed;
+        speedSelect.innerHTML = '';
+        for (const speed of msg.speeds) {
+            const option = document.createElement('option');
+            option.value = speed.toString();
+            option.textContent = speed.toFixed(1) + 'x';
+            speedSelect.appendChild(option);
+        }
+
+        const chapters = $('chapters');
+        chapters.innerHTML = '';
+        episode.chapters.forEach((chapter, index) => {
+            const item = document.createElement('li');
+            const link = document.createElement('a');
+            link.href = '#';
+            link.textContent = toHHMMSS(chapter.start) + ' ' + chapter.title;
+            link.addEventListener('click', e => {
+                e.preventDefault();
+                if (capabilities.seek) {
+                    vscode.postMessage({ command: 'jumpToChapter', index: index });
+                }
+            });
+            item.appendChild(link);
+            chapters.appendChild(item);
+        });
+        $('chapters-section').hidden = episode.chapters.length === 0;
+
+        $('show-notes').innerHTML = '<em>Loading show notes...</em>';
+    }
+
+    function renderShowNotes(msg) {
+        // Show notes are shown as-is, the content security policy prevents any scripts from running.
+        $('show-notes').innerHTML = msg.showNotes || '<em>No show notes available.</em>';
+    }
+
+    function renderState(msg) {
+        const elapsed = msg.elapsed || 0;
+        $('pause').textContent = msg.status === 'PLAYING' ? '⏸' : '▶';
+        if (msg.status === 'DOWNLOADING' || msg.status === 'OPENING') {
+            $('elapsed').textContent = msg.status === 'DOWNLOADING' ? 'Downloading...' : 'Opening...';
+            $('remaining').textContent = '';
+        } else {
+            $('elapsed').textContent = toHHMMSS(elapsed);
+            // the duration is unknown for some formats when streaming
+            $('remaining').textContent = msg.duration ? '-' + toHHMMSS(Math.max(0, msg.duration - elapsed)) : '';
+        }
+        seekBar.max = (msg.duration || 0).toString();
+        seekBar.disabled = !capabilities.seek || !msg.duration;
+        if (!seeking) {
+            seekBar.value = elapsed.toString();
+        }
+        if (msg.speed !== undefined && document.activeElement !== speedSelect) {
+            let closest = speedSelect.options[0];
+            for (const option of speedSelect.options) {
+                if (Math.abs(parseFloat(option.value) - msg.speed) < Math.abs(parseFloat(closest.value) - msg.speed)) {
+                    closest = option;
+                }
+            }
+            if (closest) {
+                speedSelect.value = closest.value;
+            }
+        }
+        const items = $('chapters').children;
+        for (let i = 0; i < items.length; i++) {
+            items[i].classList.toggle('current', i === msg.chapterIndex);
+        }
+    }
+
+    seekBar.addEventListener('input', () => {
+        seeking = true;
+        $('elapsed').textContent = toHHMMSS(parseFloat(seekBar.value));
+    });
+    seekBar.addEventListener('change', () => {
+        seeking = false;
+        vscode.postMessage({ command: 'seek', position: parseFloat(seekBar.value) });
+    });
+    speedSelect.addEventListener('change', () => {
+        vscode.postMessage({ command: 'setSpeed', speed: parseFloat(speedSelect.value) });
+    });
+    $('pause').addEventListener('click', () => vscode.postMessage({ command: 'pause' }));
+    $('skip-backward').addEventListener('click', () => vscode.postMessage({ command: 'skipBackward' }));
+    $('skip-forward').addEventListener('click', () => vscode.postMessage({ command: 'skipForward' }));
+
+    window.addEventListener('message', event => {
+        const msg = event.data;
+        if (msg.type === 'episode') {
+            renderEpisode(msg);
+        } else if (msg.type === 'showNotes') {
+            renderShowNotes(msg);
+        } else if (msg.type === 'state') {
+            renderState(msg);
+        }
+    });
+
+    vscode.postMessage({ command: 'ready' });
+}());
@@ -62,7 +62,16 @@ interface Episode {
   published?: Date,
   duration?: number,
   categories: string[],
-  enclosure: Enclosure
+  enclosure: Enclosure,
+  chaptersUrl?: string, // podcast:chapters
+  chapters?: Chapter[] // psc:chapters
+  showNotes?: string // coalesced description, may contain HTML
+}
+
+interface Chapter {
+  start: string,
+  title: string,
+  href?: string
 }
 
 interface Enclosure {
@@ -194,6 +203,17 @@ export default async function parse(feedXML: string): Promise<Podcast> {
             type: node.attributes.type,
             url: node.attributes.url
           };
+        } else if (node.name === 'podcast:chapters' && node.attributes.type === 'application/json+chapters') {
+          tmpEpisode.chaptersUrl = node.attributes.url;
+        } else if (node.name === 'psc:chapter') {
+          if (!tmpEpisode.chapters) {
+            tmpEpisode.chapters = [];
+          }
+          tmpEpisode.chapters.push({
+            start: node.attributes.start,
+            title: node.attributes.title || '',
+            href: node.attributes.href
+          });
         }
       }
     };
@@ -208,6 +228,7 @@ export default async function parse(feedXML: string): Promise<Podcast> {
           description = tmpEpisode.description.primary || tmpEpisode.description.alternate || '';
         }
         tmpEpisode.description = description;
+        tmpEpisode.showNotes = description || undefined;
         result.episodes.push(tmpEpisode);
         tmpEpisode = null;
       }
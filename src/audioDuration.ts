@@ -0,0 +1,215 @@
+import * as fs from 'fs'
+import * as path from 'path'
+import { promisify } from 'util'
+import { execFile } from 'child_process'
+import * as findExec from 'find-exec'
+import mp3Duration = require('./3rdparty/mp3-duration.js')
+
+const open = promisify(fs.open)
+const read = promisify(fs.read)
+const fstat = promisify(fs.fstat)
+const close = promisify(fs.close)
+
+const MAX_OGG_PAGE_SIZE = 65307
+
+async function readAt(fd: number, position: number, length: number): Promise<Buffer> {
+    const buf = Buffer.alloc(length)
+    const { bytesRead } = await read(fd, buf, 0, length, position)
+    return buf.slice(0, bytesRead)
+}
+
+function readUInt64BE(buf: Buffer, offset: number) {
+    return buf.readUInt32BE(offset) * 0x100000000 + buf.readUInt32BE(offset + 4)
+}
+
+function readUInt64LE(buf: Buffer, offset: number) {
+    return buf.readUInt32LE(offset + 4) * 0x100000000 + buf.readUInt32LE(offset)
+}
+
+function getId3Size(header: Buffer) {
+    if (header.length < 10 || header.toString('latin1', 0, 3) !== 'ID3') {
+        return 0
+    }
+    const footerSize = header[5] & 0x10 ? 10 : 0
+    const tagSize = (header[6] << 21) | (header[7] << 14) | (header[8] << 7) | header[9]
+    return 10 + tagSize + footerSize
+}
+
+// ISO base media file format, see ISO/IEC 14496-12 section 8.2.2 (mvhd).
+// The moov atom may be at the end of the file, so we hop from atom to atom.
+async function readMp4Duration(fd: number, fileSize: number): Promise<number | undefined> {
+    const findAtom = async (type: string, start: number, end: number) => {
+        let offset = start
+        while (offset + 8 <= end) {
+            const header = await readAt(fd, offset, 16)
+            if (header.length < 8) {
+                return undefined
+            }
+            let size = header.readUInt32BE(0)
+            let headerSize = 8
+            if (size === 1) {
+                size = readUInt64BE(header, 8)
+                headerSize = 16
+            } else if (size === 0) {
+                size = end - offset
+            }
+            if (size < headerSize) {
+                return undefined
+            }
+            if (header.toString('latin1', 4, 8) === type) {
+                return { start: offset + headerSize, end: offset + size }
+            }
+            offset += size
+        }
+        return undefined
+    }
+    const moov = await findAtom('moov', 0, fileSize)
+    if (!moov) {
+        return undefined
+    }
+    const mvhd = await findAtom('mvhd', moov.start, moov.end)
+    if (!mvhd) {
+        return undefined
+    }
+    const data = await readAt(fd, mvhd.start, 32)
+    const version = data[0]
+    let timescale: number
+    let duration: number
+    if (version === 1) {
+        timescale = data.readUInt32BE(20)
+        duration = readUInt64BE(data, 24)
+    } else {
+        timescale = data.readUInt32BE(12)
+        duration = data.readUInt32BE(16)
+    }
+    return timescale ? duration / timescale : undefined
+}
+
+// Ogg Vorbis and Opus, see https://xiph.org/ogg/doc/framing.html.
+// The granule position of the last page is the total number of samples.
+async function readOggDuration(fd: number, fileSize: number): Promise<number | undefined> {
+    const first = await readAt(fd, 0, 512)
+    const segments = first[26]
+    const packet = first.slice(27 + segments)
+    const lastPageSearchStart = Math.max(0, fileSize - MAX_OGG_PAGE_SIZE)
+    const tail = await readAt(fd, lastPageSearchStart, fileSize - lastPageSearchStart)
+    const lastPage = tail.lastIndexOf('OggS')
+    if (lastPage === -1 || lastPage + 14 > tail.length) {
+        return undefined
+    }
+    const granule = readUInt64LE(tail, lastPage + 6)
+
+    if (packet.toString('latin1', 0, 8) === 'OpusHead') {
+        // Opus always uses a 48 kHz granule clock, minus the encoder pre-skip
+        const preSkip = packet.readUInt16LE(10)
+        return Math.max(0, granule - preSkip) / 48000
+    } else if (packet.toString('latin1', 1, 7) === 'vorbis') {
+        const sampleRate = packet.readUInt32LE(12)
+        return sampleRate ? granule / sampleRate : undefined
+    }
+    return undefined
+}
+
+// See https://xiph.org/flac/format.html#metadata_block_streaminfo.
+async function readFlacDuration(fd: number, offset: number): Promise<number | undefined> {
+    const data = await readAt(fd, offset, 26)
+    if (data.length < 26 || data.toString('latin1', 0, 4) !== 'fLaC' || (data[4] & 0x7f) !== 0) {
+        return undefined
+    }
+    const sampleRate = (data[18] << 12) | (data[19] << 4) | (data[20] >> 4)
+    const totalSamples = (data[21] & 0x0f) * 0x100000000 + data.readUInt32BE(22)
+    // total samples may be 0 if unknown
+    return sampleRate && totalSamples ? totalSamples / sampleRate : undefined
+}
+
+// RIFF WAVE, duration is the size of the data chunk divided by the byte rate.
+async function readWavDuration(fd: number, fileSize: number): Promise<number | undefined> {
+    let offset = 12
+    let byteRate: number | undefined
+    while (offset + 8 <= fileSize) {
+        const header = await readAt(fd, offset, 20)
+        const id = header.toString('latin1', 0, 4)
+        const size = header.readUInt32LE(4)
+        if (id === 'fmt ' && header.length >= 20) {
+            byteRate = header.readUInt32LE(16)
+        } else if (id === 'data') {
+            // streamed WAV files may not know their final data size
+            const dataSize = Math.min(size, fileSize - offset - 8)
+            return byteRate ? dataSize / byteRate : undefined
+        }
+        offset += 8 + size + (size % 2)
+    }
+    return undefined
+}
+
+async function readContainerDuration(audioPath: string): Promise<number | undefined> {
+    let isMp3 = path.extname(audioPath).toLowerCase() === '.mp3'
+    const fd = await open(audioPath, 'r')
+    try {
+        const fileSize = (await fstat(fd)).size
+        const header = await readAt(fd, 0, 12)
+        if (header.length < 12) {
+            return undefined
+        }
+        if (header.toString('latin1', 4, 8) === 'ftyp') {
+            return await readMp4Duration(fd, fileSize)
+        } else if (header.toString('latin1', 0, 4) === 'OggS') {
+            return await readOggDuration(fd, fileSize)
+        } else if (header.toString('latin1', 0, 4) === 'RIFF' && header.toString('latin1', 8, 12) === 'WAVE') {
+            return await readWavDuration(fd, fileSize)
+        }
+        // FLAC files sometimes start with an ID3 tag like MP3 files do
+        const flacOffset = getId3Size(await readAt(fd, 0, 10))
+        const flacDuration = await readFlacDuration(fd, flacOffset)
+        if (flacDuration !== undefined) {
+            return flacDuration
+        }
+        const frame = await readAt(fd, flacOffset, 2)
+        const frameSync = frame.length === 2 && frame[0] === 0xFF && (frame[1] & 0xE0) === 0xE0
+        if (frameSync && (frame[1] & 0x06) === 0) {
+            // layer 00 is reserved in MPEG audio, but used by ADTS AAC streams
+            return undefined
+        }
+        // ID3 tag or MPEG frame sync
+        isMp3 = isMp3 || flacOffset > 0 || frameSync
+    } finally {
+        await close(fd)
+    }
+    if (isMp3) {
+        const duration = await mp3Duration(audioPath)
+        return duration > 0 ? duration : undefined
+    }
+    return undefined
+}
+
+function probeDuration(ffprobePath: string, audioPath: string): Promise<number | undefined> {
+    const args = ['-v', 'error', '-show_entries', 'format=duration', '-of', 'default=noprint_wrappers=1:nokey=1', audioPath]
+    return new Promise((resolve, reject) => {
+        execFile(ffprobePath, args, { timeout: 30000 }, (error, stdout) => {
+            if (error) {
+                reject(error)
+                return
+            }
+            const duration = parseFloat(stdout.toString().trim())
+            resolve(isNaN(duration) || duration <= 0 ? undefined : duration)
+        })
+    })
+}
+
+// Reads the duration from MP3, MP4/M4A, Ogg Vorbis/Opus, FLAC and WAV files.
+// Falls back to ffprobe for other formats or if parsing fails.
+export async function readAudioDuration(audioPath: string): Promise<number | undefined> {
+    let duration: number | undefined
+    try {
+        duration = await readContainerDuration(audioPath)
+    } catch (e) {
+        duration = undefined
+    }
+    if (duration === undefined) {
+        const ffprobePath = findExec(['ffprobe'])
+        if (ffprobePath) {
+            duration = await probeDuration(ffprobePath, audioPath)
+        }
+    }
+    return duration
+}
@@ -0,0 +1,83 @@
+// Common interface of all audio backends used by Player.
+
+import { Event } from 'vscode';
+
+export enum AudioBackendCommand {
+  PAUSE,
+  SPEEDUP,
+  SLOWDOWN,
+  SKIP_FORWARD,
+  SKIP_BACKWARD,
+  SEEK, // absolute position in seconds
+  SET_SPEED, // absolute ratio
+  VOLUME_UP,
+  VOLUME_DOWN,
+  SET_VOLUME, // absolute percentage
+  MUTE // toggles
+}
+
+export enum AudioFilter {
+  TRIM_SILENCE, // skips silent parts
+  VOICE_BOOST // dynamic range compression / loudness normalization
+}
+
+export enum AudioBackendStatus {
+  PLAYING,
+  PAUSED,
+  STOPPED
+}
+
+// Relative amounts of commands, e.g. seconds for SKIP_FORWARD or the ratio for SPEEDUP.
+export type AudioBackendCommandInfo = {[cmd in AudioBackendCommand]?: number}
+
+export interface AudioBackendCapabilities {
+  startOffset: boolean // can start playing from an arbitrary position
+  streaming: boolean // can play http(s) URLs and reports the duration itself
+  commands: AudioBackendCommand[] // empty if playback cannot be controlled interactively
+  commandInfo: AudioBackendCommandInfo
+  positionReporting: boolean // reports the actual position instead of an estimate based on wall-clock time
+  filters: AudioFilter[]
+}
+
+export interface AudioBackendPlayOptions {
+  startPosition: number // s
+  duration?: number // s, determined by the backend if unknown
+  thumbnailUrl?: string
+  volume: number // percentage
+  filters: AudioFilter[] // must be supported, see AudioBackendCapabilities
+}
+
+export interface AudioBackend {
+  readonly name: string
+  readonly capabilities: AudioBackendCapabilities
+
+  readonly onStatusChange: Event<AudioBackendStatus>
+  readonly status: AudioBackendStatus
+
+  readonly duration: number // s
+  readonly position: number // s
+  readonly speed: number // ratio
+  readonly volume: number // percentage
+  readonly muted: boolean
+
+  play(audioPath: string, opts: AudioBackendPlayOptions,
+       onError: (e: Error) => void): Promise<void>
+  stop(): void
+  sendCommand(cmd: AudioBackendCommand, value?: number): void
+}
+
+export function supportsCommand(backend: AudioBackend, cmd: AudioBackendCommand) {
+  return backend.capabilities.commands.includes(cmd)
+}
+
+export function supportsFilter(backend: AudioBackend, filter: AudioFilter) {
+  return backend.capabilities.filters.includes(filter)
+}
+
+export function getCommandInfo(backend: AudioBackend, cmd: AudioBackendCommand): number {
+  const info = backend.capabilities.commandInfo[cmd]
+  if (info === undefined) {
+    throw new Error(`No command info found for ${AudioBackendCommand[cmd]} (${backend.name})`)
+  }
+  return info
+}
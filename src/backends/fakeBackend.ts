@@ -0,0 +1,166 @@
+// Deterministic backend without audio output, driven by a script instead of a player process.
+// Used by the Player tests, which run on machines without an audio device.
+
+import { EventEmitter } from 'vscode';
+import { AudioBackend, AudioBackendCapabilities, AudioBackendCommand, AudioBackendStatus,
+         AudioBackendPlayOptions, AudioFilter } from './audioBackend';
+
+export type FakeBackendStep =
+  { status: AudioBackendStatus } |
+  { position: number } | // s
+  { speed: number } | // ratio
+  { volume: number } | // percentage
+  { error: string } // reported via the onError callback of play()
+
+export interface FakeBackendCommand {
+  cmd: AudioBackendCommand
+  value?: number
+}
+
+export const FAKE_BACKEND_CAPABILITIES: AudioBackendCapabilities = {
+  startOffset: true,
+  streaming: true,
+  commands: [
+    AudioBackendCommand.PAUSE,
+    AudioBackendCommand.SPEEDUP,
+    AudioBackendCommand.SLOWDOWN,
+    AudioBackendCommand.SKIP_FORWARD,
+    AudioBackendCommand.SKIP_BACKWARD,
+    AudioBackendCommand.SEEK,
+    AudioBackendCommand.SET_SPEED,
+    AudioBackendCommand.VOLUME_UP,
+    AudioBackendCommand.VOLUME_DOWN,
+    AudioBackendCommand.SET_VOLUME,
+    AudioBackendCommand.MUTE
+  ],
+  commandInfo: {
+    [AudioBackendCommand.SPEEDUP]: 0.2,
+    [AudioBackendCommand.SLOWDOWN]: -0.2,
+    [AudioBackendCommand.SKIP_FORWARD]: 30,
+    [AudioBackendCommand.SKIP_BACKWARD]: -15,
+    [AudioBackendCommand.VOLUME_UP]: 10,
+    [AudioBackendCommand.VOLUME_DOWN]: -10,
+  },
+  positionReporting: true,
+  filters: [AudioFilter.TRIM_SILENCE, AudioFilter.VOICE_BOOST]
+}
+
+export class FakeBackend implements AudioBackend {
+  readonly name = 'fake'
+
+  private _onStatusChange = new EventEmitter<AudioBackendStatus>()
+  onStatusChange = this._onStatusChange.event
+
+  status = AudioBackendStatus.STOPPED
+  duration = 0
+  position = 0
+  speed = 1.0
+  volume = 100
+  muted = false
+  filters: AudioFilter[] = []
+
+  // all commands received so far, in order
+  readonly commands: FakeBackendCommand[] = []
+
+  private script: FakeBackendStep[] = []
+  private onError: ((e: Error) => void) | undefined
+
+  constructor(readonly capabilities = FAKE_BACKEND_CAPABILITIES,
+              private defaultDuration = 3600) {
+  }
+
+  // Steps are queued and only run by step() or runScript().
+  setScript(steps: FakeBackendStep[]) {
+    this.script = steps.slice()
+  }
+
+  step() {
+    const step = this.script.shift()
+    if (!step) {
+      return false
+    }
+    if ('status' in step) {
+      this.setStatus(step.status)
+    } else if ('position' in step) {
+      this.position = Math.min(step.position, this.duration)
+    } else if ('speed' in step) {
+      this.speed = step.speed
+    } else if ('volume' in step) {
+      this.volume = step.volume
+    } else if (this.onError) {
+      this.onError(new Error(step.error))
+    }
+    return true
+  }
+
+  runScript() {
+    while (this.step()) {
+    }
+  }
+
+  private setStatus(v: AudioBackendStatus) {
+    if (this.status == v) {
+      return
+    }
+    this.status = v
+    this._onStatusChange.fire(v)
+  }
+
+  async play(audioPath: string, opts: AudioBackendPlayOptions,
+             onError: (e: Error) => void): Promise<void> {
+    if (this.status !== AudioBackendStatus.STOPPED) {
+      this.stop()
+    }
+    this.duration = opts.duration || this.defaultDuration
+    this.position = opts.startPosition
+    this.speed = 1.0
+    this.volume = opts.volume
+    this.muted = false
+    this.filters = opts.filters
+    this.onError = onError
+    this.setStatus(AudioBackendStatus.PLAYING)
+  }
+
+  stop() {
+    this.setStatus(AudioBackendStatus.STOPPED)
+  }
+
+  sendCommand(cmd: AudioBackendCommand, value?: number) {
+    if (!this.capabilities.commands.includes(cmd)) {
+      throw new Error(`${this.name} does not support the ${AudioBackendCommand[cmd]} command`)
+    }
+    this.commands.push({ cmd, value })
+    const info = this.capabilities.commandInfo[cmd]
+    switch (cmd) {
+      case AudioBackendCommand.PAUSE:
+        this.setStatus(this.status == AudioBackendStatus.PLAYING 
+          ? AudioBackendStatus.PAUSED 
+          : AudioBackendStatus.PLAYING)
+        break
+      case AudioBackendCommand.SKIP_FORWARD:
+      case AudioBackendCommand.SKIP_BACKWARD:
+        this.position = Math.max(0, Math.min(this.position + info!, this.duration))
+        break
+      case AudioBackendCommand.SPEEDUP:
+      case AudioBackendCommand.SLOWDOWN:
+        this.speed += info!
+        break
+      case AudioBackendCommand.SEEK:
+        this.position = Math.max(0, Math.min(value!, this.duration))
+        break
+      case AudioBackendCommand.SET_SPEED:
+        this.speed = value!
+        break
+      case AudioBackendCommand.VOLUME_UP:
+      case AudioBackendCommand.VOLUME_DOWN:
+        this.volume = Math.max(0, Math.min(this.volume + info!, 100))
+        break
+      case AudioBackendCommand.SET_VOLUME:
+        this.volume = value!
+        break
+      case AudioBackendCommand.MUTE:
+        this.muted = !this.muted
+        break
+    }
+  }
+}
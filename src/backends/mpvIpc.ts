@@ -0,0 +1,111 @@
+// Minimal client for mpv's JSON IPC protocol, see https://mpv.io/manual/stable/#json-ipc.
+
+import * as net from 'net'
+import { EventEmitter } from 'vscode';
+
+export interface MpvPropertyChange {
+  name: string
+  data: any
+}
+
+export class MpvIpcClient {
+  private _onPropertyChange = new EventEmitter<MpvPropertyChange>()
+  onPropertyChange = this._onPropertyChange.event
+
+  private socket: net.Socket | undefined
+  private buffer = ''
+  private pending: string[] = [] // messages sent before the socket was connected
+  private observedProperties: string[] = []
+  private disposed = false
+
+  constructor(private ipcPath: string, private log: (msg: string) => void) {
+  }
+
+  // mpv creates the socket shortly after startup, so we retry until it appears.
+  async connect(timeout = 5000) {
+    const start = Date.now()
+    let socket: net.Socket | undefined
+    while (!socket) {
+      if (this.disposed) {
+        return
+      }
+      try {
+        socket = await new Promise<net.Socket>((resolve, reject) => {
+          const s = net.connect(this.ipcPath, () => {
+            s.removeListener('error', reject)
+            resolve(s)
+          })
+          s.once('error', reject)
+        })
+      } catch (e) {
+        if (Date.now() - start > timeout) {
+          throw new Error(`Unable to connect to mpv IPC socket ${this.ipcPath}: ${e.message}`)
+        }
+        await new Promise(resolve => setTimeout(resolve, 100))
+      }
+    }
+    if (this.disposed) {
+      socket.destroy()
+      return
+    }
+    this.socket = socket
+    socket.setEncoding('utf8')
+    socket.on('data', (data: string) => this.onData(data))
+    socket.on('error', e => this.log(`mpv IPC error: ${e.message}`))
+    for (const msg of this.pending) {
+      socket.write(msg)
+    }
+    this.pending = []
+  }
+
+  command(...args: any[]) {
+    this.send({ command: args })
+  }
+
+  observeProperty(name: string) {
+    this.observedProperties.push(name)
+    // The observer id is only used for unobserving, which we don't need.
+    this.command('observe_property', this.observedProperties.length, name)
+  }
+
+  private send(msg: object) {
+    const line = JSON.stringify(msg) + '\n'
+    if (this.socket) {
+      this.socket.write(line)
+    } else {
+      this.pending.push(line)
+    }
+  }
+
+  private onData(data: string) {
+    this.buffer += data
+    const lines = this.buffer.split('\n')
+    this.buffer = lines.pop()!
+    for (const line of lines) {
+      if (!line.trim()) {
+        continue
+      }
+      let msg: any
+      try {
+        msg = JSON.parse(line)
+      } catch (e) {
+        this.log(`mpv IPC: unable to parse "${line}"`)
+        continue
+      }
+      if (msg.event === 'property-change') {
+        this._onPropertyChange.fire({ name: msg.name, data: msg.data })
+      } else if (msg.error && msg.error !== 'success') {
+        this.log(`mpv IPC: command failed (${msg.error})`)
+      }
+    }
+  }
+
+  dispose() {
+    this.disposed = true
+    if (this.socket) {
+      this.socket.destroy()
+      this.socket = undefined
+    }
+    this._onPropertyChange.dispose()
+  }
+}
@@ -0,0 +1,451 @@
+// Plays audio using command-line players to work-around VS Code's limited native nodejs package support.
+
+import * as path from 'path'
+import * as fs from 'fs'
+import {EOL, tmpdir} from 'os'
+import {platform, pid} from 'process'
+import * as findExec from 'find-exec'
+import {spawn, ChildProcess, SpawnOptions} from 'child_process'
+
+import { EventEmitter } from 'vscode';
+import { getAudioDuration, toHHMMSS } from '../util';
+import { MpvIpcClient } from './mpvIpc';
+import { AudioBackend, AudioBackendCapabilities, AudioBackendCommand, AudioBackendStatus,
+         AudioBackendPlayOptions, AudioFilter } from './audioBackend';
+import { PLAYERS, ControlMode, StatusAnswer, ShellPlayerProfile, getShellPlayerProfile,
+         parseMpvPropertyChange } from './shellProfiles';
+
+const IS_WINDOWS = platform === 'win32'
+
+function isUrl(audioPath: string) {
+  return /^https?:\/\//.test(audioPath)
+}
+
+interface PlaceholderValues {
+  audioPath: string
+  startPosition: number // s
+  thumbnailUrl?: string
+  ipcPath?: string
+  volume: number // percentage
+}
+
+export interface ShellBackendOptions {
+  playerPath?: string
+  customProfiles?: ShellPlayerProfile[]
+  supportDir: string
+}
+
+export class ShellBackend implements AudioBackend {
+  private _onStatusChange = new EventEmitter<AudioBackendStatus>()
+  onStatusChange = this._onStatusChange.event
+
+  private _status = AudioBackendStatus.STOPPED
+
+  private playerPath: string
+  private profile: ShellPlayerProfile
+  private customProfiles: ShellPlayerProfile[]
+  private supportDir: string
+
+  private process: ChildProcess | undefined
+  private ipc: MpvIpcClient | undefined
+
+  public duration: number
+  private startPosition: number // s
+  private currentPositionFromStatus: number | undefined // s
+  private startUnixTimestamp: number // ms
+  private stopUnixTimestamp: number | undefined // ms
+
+  private currentSpeedFromStatus: number | undefined // ratio
+
+  // Reported by the player if supported, otherwise tracked from the commands sent.
+  public volume = 100 // percentage
+  public muted = false
+
+  constructor(opts: ShellBackendOptions, private log: (msg: string) => void) {
+    this.supportDir = opts.supportDir
+    this.customProfiles = opts.customProfiles || []
+    this.setPlayerPath(opts.playerPath)
+  }
+  
+  private setStatus(v: AudioBackendStatus) {
+    if (this._status == v) {
+      return
+    }
+    this._status = v
+    this._onStatusChange.fire(v)
+  }
+
+  get status() {
+    return this._status
+  }
+
+  get name() {
+    return this.profile.name
+  }
+
+  get capabilities(): AudioBackendCapabilities {
+    const commands = this.profile.commands || {}
+    return {
+      startOffset: this.profile.startOffset,
+      streaming: !!this.profile.streaming,
+      commands: Object.keys(commands).map(cmd => parseInt(cmd) as AudioBackendCommand),
+      commandInfo: this.profile.commandInfo || {},
+      positionReporting: !!(this.profile.statusRegex || this.profile.parseAnswer || this.profile.observedProperties),
+      filters: Object.keys(this.profile.filterArgs || {}).map(filter => parseInt(filter) as AudioFilter)
+    }
+  }
+
+  // Takes effect with the next call to setPlayerPath().
+  setCustomProfiles(profiles: ShellPlayerProfile[]) {
+    this.customProfiles = profiles
+  }
+
+  setPlayerPath(playerPath?: string) {
+    if (playerPath) {
+      if (fs.existsSync(playerPath) || findExec([playerPath])) {
+        this.playerPath = playerPath
+      } else {
+        throw new Error(`Player "${playerPath}" not found`)
+      }
+    } else {
+      const players = this.customProfiles.map(p => p.executable!).concat(PLAYERS)
+      this.playerPath = findExec(players)
+      if (!this.playerPath) {
+        throw new Error(`No audio player found, tried: ${players}`)
+      }
+    }
+    const playerName = path.basename(this.playerPath, path.extname(this.playerPath))
+    this.profile = getShellPlayerProfile(playerName, this.customProfiles)
+    this.log(`Player: ${this.playerPath}`)
+    if (!this.profile.startOffset) {
+      this.log(`NOTE: ${this.playerPath} only supports playing from the start of an audio file`)
+    }
+  }
+
+  private getIpcPath() {
+    const name = `vscode-podcasts-${this.profile.name}-${pid}-${Math.random().toString(36).substring(2, 10)}`
+    if (IS_WINDOWS) {
+      return '\\\\.\\pipe\\' + name
+    } else {
+      return path.join(tmpdir(), name + '.sock')
+    }
+  }
+
+  private expandPlaceholders(templates: string[], values: PlaceholderValues) {
+    const thumbnailUrl = values.thumbnailUrl || 'none'
+    const startPositionHHMMSS = toHHMMSS(values.startPosition)
+    return templates.map(arg => {
+      arg = arg.replace('%PATH%', values.audioPath)
+      arg = arg.replace('%SUPPORT_DIR%', this.supportDir)
+      arg = arg.replace('%POSITION_S%', values.startPosition.toString())
+      arg = arg.replace('%POSITION_HHMMSS%', startPositionHHMMSS)
+      arg = arg.replace('%THUMBNAIL_URL%', thumbnailUrl)
+      arg = arg.replace('%VOLUME%', Math.round(values.volume).toString())
+      if (values.ipcPath) {
+        arg = arg.replace('%IPC_PATH%', values.ipcPath)
+      }
+      return arg
+    })
+  }
+
+  async play(audioPath: string, opts: AudioBackendPlayOptions,
+             onError: (e: Error) => void): Promise<void> {
+    const {startPosition, duration, thumbnailUrl, volume} = opts
+    let options: SpawnOptions = {
+      stdio: 'pipe'
+    }
+
+    if (this.process) {
+      this.stop()
+    }
+
+    if (!audioPath) {
+      throw new Error("No audio file specified")
+    }
+
+    if (!this.playerPath){
+      throw new Error("Couldn't find a suitable audio player")
+    }
+
+    const profile = this.profile
+
+    if (!profile.startOffset && startPosition != 0) {
+      throw new Error(`${profile.name} does not support playing from arbitrary positions`)
+    }
+
+    if (duration) {
+      this.duration = duration
+    } else if (isUrl(audioPath)) {
+      // reported by the player once known
+      this.duration = 0
+    } else {
+      this.log(`Determining total duration`)
+      try {
+        this.duration = await getAudioDuration(audioPath)
+      } catch (e) {
+        // reported by the player once known, if at all
+        this.log(`${e.message}, continuing without`)
+        this.duration = 0
+      }
+    }
+
+    this.startPosition = startPosition
+    this.currentPositionFromStatus = undefined
+    this.currentSpeedFromStatus = undefined
+    this.volume = volume
+    this.muted = false
+    this.startUnixTimestamp = Date.now()
+    this.stopUnixTimestamp = undefined
+
+    const ipcPath = profile.controlMode === ControlMode.IPC ? this.getIpcPath() : undefined
+    const placeholderValues = { audioPath, startPosition, thumbnailUrl, ipcPath, volume }
+    const args = this.expandPlaceholders(profile.args, placeholderValues)
+    for (const filter of opts.filters) {
+      const filterArgs = (profile.filterArgs || {})[filter]
+      if (!filterArgs) {
+        throw new Error(`${profile.name} does not support the ${AudioFilter[filter]} filter`)
+      }
+      args.push(...filterArgs)
+    }
+    this.log(`Running ${this.playerPath} ${args.join(' ')}`)
+
+    if (!profile.statusCommand) {
+      this.setStatus(AudioBackendStatus.PLAYING)
+    }
+
+    const process = spawn(this.playerPath, args, options)
+    if (!process) {
+      throw new Error("Unable to spawn process with " + this.playerPath)
+    }
+    this.process = process
+
+    const logOutputLines = (data: string) => {
+      const lines = data.split(EOL)
+      for (let line of lines) {
+        line = line.trimRight()
+        if (line) {
+          this.log(`${profile.name}: ${line}`)
+        }
+      }
+    }
+
+    let stdoutBuffer = ''
+    process.stdout.setEncoding('utf8')
+    process.stdout.on('data', (data: string) => {
+      if (profile.controlMode === ControlMode.LINES) {
+        const lines = (stdoutBuffer + data).split(/\r?\n/)
+        stdoutBuffer = lines.pop()!
+        for (const line of lines) {
+          if (!this.extractAnswer(line)) {
+            logOutputLines(line)
+          }
+        }
+      } else if (!this.extractStatus(data)) {
+        logOutputLines(data)
+      }
+    })
+
+    process.stderr.setEncoding('utf8')
+    process.stderr.on('data', logOutputLines)
+
+    let statusCommandIntervalId: NodeJS.Timeout | undefined
+
+    if (ipcPath) {
+      const ipc = new MpvIpcClient(ipcPath, this.log)
+      this.ipc = ipc
+      ipc.onPropertyChange(change => this.applyStatusAnswer(parseMpvPropertyChange(change)))
+      for (const property of profile.observedProperties || []) {
+        ipc.observeProperty(property)
+      }
+      ipc.connect().catch(e => {
+        this.log(e.message)
+        onError(e)
+      })
+    }
+
+    process.on('close', (code, signal) => {
+      if (!this.stopUnixTimestamp) {
+        this.stopUnixTimestamp = Date.now()
+      }
+      if (statusCommandIntervalId) {
+        clearInterval(statusCommandIntervalId)
+      }
+      if (this.process && this.process !== process) {
+        // replaced by a newer process, see stop()
+        return
+      }
+      if (this.ipc) {
+        this.ipc.dispose()
+        this.ipc = undefined
+      }
+      this.setStatus(AudioBackendStatus.STOPPED)
+      if (!process!.killed && code != 0) {
+        onError(new Error(`${profile.name} terminated unexpectedly with exit code ${code}`))
+      }
+    })
+
+    for (const cmd of this.expandPlaceholders(profile.initCommands || [], placeholderValues)) {
+      this.write(cmd)
+    }
+
+    if (profile.statusCommand) {
+      this.write(profile.statusCommand)
+      statusCommandIntervalId = setInterval(() => {
+        this.write(profile.statusCommand!)
+      }, 1000)
+    }
+  }
+
+  private extractStatus(line: string) {
+    const re = this.profile.statusRegex
+    if (!re) {
+      return false
+    }
+    
+    const matches = line.match(re)
+    if (!matches) {
+      return false
+    }
+    const oldPositionFromStatus = this.currentPositionFromStatus
+    const newPositionFromStatus = parseFloat(matches.groups!['elapsed'])
+    this.currentPositionFromStatus = newPositionFromStatus
+    if (oldPositionFromStatus != newPositionFromStatus) {
+      this.setStatus(AudioBackendStatus.PLAYING)
+    } else {
+      this.setStatus(AudioBackendStatus.PAUSED)
+    }
+    const speed = matches.groups!['speed']
+    this.currentSpeedFromStatus = speed ? parseFloat(speed) : undefined
+    return true
+  }
+
+  private extractAnswer(line: string) {
+    const parse = this.profile.parseAnswer
+    const answer = parse ? parse(line) : undefined
+    if (!answer) {
+      return false
+    }
+    this.applyStatusAnswer(answer)
+    return true
+  }
+
+  private applyStatusAnswer(answer: StatusAnswer) {
+    if (answer.elapsed !== undefined) {
+      this.currentPositionFromStatus = answer.elapsed
+    }
+    if (answer.speed !== undefined) {
+      this.currentSpeedFromStatus = answer.speed
+    }
+    if (answer.duration !== undefined) {
+      this.duration = answer.duration
+    }
+    if (answer.volume !== undefined) {
+      this.volume = answer.volume
+    }
+    if (answer.muted !== undefined) {
+      this.muted = answer.muted
+    }
+    if (answer.paused !== undefined) {
+      this.setStatus(answer.paused ? AudioBackendStatus.PAUSED : AudioBackendStatus.PLAYING)
+    }
+    if (answer.ended && this.profile.quitCommand) {
+      this.log('End of file reached')
+      this.write(this.profile.quitCommand)
+    }
+  }
+
+  // Writes a raw command to the player process.
+  private write(cmd: string) {
+    if (!this.process) {
+      return
+    }
+    if (this.ipc) {
+      this.ipc.command(...cmd.split(' '))
+    } else if (this.profile.controlMode === ControlMode.LINES) {
+      this.process.stdin.write(cmd + EOL)
+    } else {
+      this.process.stdin.write(cmd)
+    }
+  }
+
+  sendCommand(cmd: AudioBackendCommand, value?: number) {
+    if (!this.process) {
+      return
+    }
+    const cmds = this.profile.commands
+    if (!cmds) {
+      throw new Error(`${this.profile.name} cannot be controlled interactively`)
+    }
+    if (!cmds[cmd]) {
+      throw new Error(`${this.profile.name} does not support the ${AudioBackendCommand[cmd]} command`)
+    }
+    this.log(`Command: ${AudioBackendCommand[cmd]}` + (value !== undefined ? ` ${value}` : ''))
+    this.trackVolume(cmd, value)
+    let cmdString = cmds[cmd]!
+    if (value !== undefined) {
+      cmdString = cmdString.replace('%VALUE%', value.toString())
+    }
+    this.write(cmdString)
+    // Only after writing, as listeners may send further commands, e.g. a rewinding seek
+    // when resuming, which must not arrive before the pause toggle.
+    if (cmd == AudioBackendCommand.PAUSE) {
+      this.setStatus(this.status == AudioBackendStatus.PLAYING 
+        ? AudioBackendStatus.PAUSED 
+        : AudioBackendStatus.PLAYING)
+    }
+  }
+
+  private trackVolume(cmd: AudioBackendCommand, value?: number) {
+    const step = this.capabilities.commandInfo[cmd]
+    switch (cmd) {
+      case AudioBackendCommand.VOLUME_UP:
+      case AudioBackendCommand.VOLUME_DOWN:
+        this.volume = Math.max(0, Math.min(this.volume + step!, 100))
+        break
+      case AudioBackendCommand.SET_VOLUME:
+        this.volume = value!
+        break
+      case AudioBackendCommand.MUTE:
+        this.muted = !this.muted
+        break
+    }
+  }
+
+  stop() {
+    if (!this.process) {
+      throw new Error('stop() must be called after start()')
+    }
+    this.log('Stopping player')
+    this.stopUnixTimestamp = Date.now()
+    this.process.kill()
+    this.process = undefined
+    if (this.ipc) {
+      this.ipc.dispose()
+      this.ipc = undefined
+    }
+    // Don't wait for the process to exit, so that listeners see the final position
+    // before a new file is played.
+    this.setStatus(AudioBackendStatus.STOPPED)
+  }
+
+  get position() {
+    if (this.currentPositionFromStatus) {
+      return this.currentPositionFromStatus
+    }
+    const current = this.stopUnixTimestamp ? this.stopUnixTimestamp : Date.now()
+    const elapsed = this.startPosition + (current - this.startUnixTimestamp) / 1000
+    if (this.duration && elapsed > this.duration) {
+      return this.duration
+    } else {
+      return elapsed
+    }
+  }
+
+  get speed() {
+    if (this.currentSpeedFromStatus) {
+      return this.currentSpeedFromStatus
+    } else {
+      return 1.0
+    }
+  }
+}
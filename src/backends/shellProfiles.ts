@@ -0,0 +1,423 @@
+// Per-player tables describing how ShellBackend runs and controls each command-line player.
+
+import * as path from 'path'
+import {EOL} from 'os'
+
+import { AudioBackendCommand, AudioBackendCommandInfo, AudioFilter } from './audioBackend';
+import { MpvPropertyChange } from './mpvIpc';
+import { PlayerProfileConfiguration } from '../types';
+
+// players with MP3 support
+export const PLAYERS = [
+  // bundled = player is shipped by us
+  // external = player needs to be installed, e.g. via system package manager
+  // system = player ships with the operating system, no need to install
+  // offset = start position can be given as CLI argument
+  // interactive = can be controlled via redirected stdin, e.g. seeking, pausing
+  // status line = outputs a status line with the current playing position
+  // ipc = controlled and observed via a JSON IPC socket instead of stdin/stdout
+  // filters = supports audio filters, e.g. silence trimming and voice boost
+  'powershell', // Windows [bundled, offset, interactive (pause, seek, speed, volume), status line]
+  'mpv', // typically Linux/macOS [external, offset, interactive (pause, seek, speed, volume), ipc, filters]
+  'mplayer', // typically Linux [external, offset, interactive (pause, seek, speed, volume), status queries, filters (voice boost)]
+  'play', // typically Linux [external, offset, filters]
+  'mpg123', // typically Linux [external, offset, interactive (pause, seek, speed, volume), status lines]
+  'mpg321', // typically Linux [external, status line]
+  'afplay', // macOS [system]
+]
+
+export enum ControlMode {
+  KEYS, // single keystrokes via stdin
+  LINES, // line-based commands via stdin, answers via stdout
+  IPC // JSON commands and property change events via a socket
+}
+
+export interface StatusAnswer {
+  elapsed?: number // s
+  paused?: boolean
+  speed?: number // ratio
+  duration?: number // s
+  volume?: number // percentage
+  muted?: boolean
+  ended?: boolean
+}
+
+// Commands may contain a %VALUE% placeholder, see ShellBackend.sendCommand().
+export type CommandMap = {[cmd in AudioBackendCommand]?: string}
+
+// Arguments appended to the player arguments when a filter is enabled.
+export type FilterArgsMap = {[filter in AudioFilter]?: string[]}
+
+export interface ShellPlayerProfile {
+  name: string // player filename without extension, e.g. 'mplayer'
+  executable?: string // user-defined profiles only, name or path used for detecting the player
+  // Supported placeholders: %PATH%, %SUPPORT_DIR%, %POSITION_S%, %POSITION_HHMMSS%,
+  // %THUMBNAIL_URL%, %IPC_PATH%, %VOLUME%
+  args: string[]
+  startOffset: boolean
+  streaming?: boolean // see AudioBackendCapabilities
+  initCommands?: string[] // sent to stdin after startup, using the same placeholders as args
+  controlMode?: ControlMode
+  commands?: CommandMap
+  commandInfo?: AudioBackendCommandInfo
+  statusCommand?: string // sent every second
+  quitCommand?: string // sent once the player reports the end of the file
+  statusRegex?: RegExp // KEYS only, with "elapsed" and optional "speed" groups
+  parseAnswer?: (line: string) => StatusAnswer | undefined // LINES only
+  observedProperties?: string[] // IPC only
+  filterArgs?: FilterArgsMap
+}
+
+const DEFAULT_COMMAND_INFO: AudioBackendCommandInfo = {
+  [AudioBackendCommand.SPEEDUP]: 0.2,
+  [AudioBackendCommand.SLOWDOWN]: -0.2,
+  [AudioBackendCommand.SKIP_FORWARD]: 30,
+  [AudioBackendCommand.SKIP_BACKWARD]: -15,
+  [AudioBackendCommand.VOLUME_UP]: 10,
+  [AudioBackendCommand.VOLUME_DOWN]: -10,
+}
+
+// Returns the default amounts of those commands that a user-defined profile contains.
+function getDefaultCommandInfo(commands: CommandMap): AudioBackendCommandInfo {
+  const info: AudioBackendCommandInfo = {}
+  for (const cmd of Object.keys(commands).map(cmd => parseInt(cmd) as AudioBackendCommand)) {
+    if (cmd in DEFAULT_COMMAND_INFO) {
+      info[cmd] = DEFAULT_COMMAND_INFO[cmd]
+    }
+  }
+  return info
+}
+
+// A:  52.5 (52.4) of 1863.0 (31:03.0)  0.0% 1.2x
+// ("1.2x" is left out if speed is 1.0)
+const MPLAYER_STATUS_REGEX = /A:\s+(?<elapsed>[\d\.]+)\s+[^%]+%(\s+(?<speed>[\d\.]+)x)?/
+
+export function parseMpvPropertyChange(change: MpvPropertyChange): StatusAnswer {
+  const value = change.data
+  switch (change.name) {
+    case 'time-pos':
+      return typeof value === 'number' ? { elapsed: value } : {}
+    case 'pause':
+      return { paused: !!value }
+    case 'speed':
+      return typeof value === 'number' ? { speed: value } : {}
+    case 'duration':
+      return typeof value === 'number' ? { duration: value } : {}
+    case 'volume':
+      return typeof value === 'number' ? { volume: value } : {}
+    case 'mute':
+      return { muted: !!value }
+    default:
+      return {}
+  }
+}
+
+// ANS_TIME_POSITION=52.5
+// ANS_pause=no
+// ANS_speed=1.20
+// ANS_LENGTH=1863.00
+// ANS_volume=80.000000
+// ANS_mute=no
+// ANS_ERROR=PROPERTY_UNAVAILABLE
+const MPLAYER_ANSWER_REGEX = /^ANS_(?<name>\w+)=(?<value>.*)$/
+// EOF code: 1
+const MPLAYER_EOF_REGEX = /^EOF code:/
+
+function parseMplayerAnswer(line: string): StatusAnswer | undefined {
+  const matches = line.match(MPLAYER_ANSWER_REGEX)
+  if (matches) {
+    const value = matches.groups!['value']
+    const number = parseFloat(value)
+    if (value !== 'yes' && value !== 'no' && isNaN(number)) {
+      // errors, or truncated answers like "ANS_LENGTH="
+      return {}
+    }
+    switch (matches.groups!['name']) {
+      case 'TIME_POSITION':
+        return { elapsed: number }
+      case 'pause':
+        return { paused: value === 'yes' }
+      case 'speed':
+        return { speed: number }
+      case 'LENGTH':
+        return { duration: number }
+      case 'volume':
+        return { volume: number }
+      case 'mute':
+        return { muted: value === 'yes' }
+      default:
+        return {}
+    }
+  }
+  if (MPLAYER_EOF_REGEX.test(line)) {
+    return { ended: true }
+  }
+}
+
+// @F 334 4035 8.01 96.83 (frame, frames left, seconds, seconds left)
+const MPG123_FRAME_REGEX = /^@F\s+\d+\s+\d+\s+(?<elapsed>\d[\d\.]*)\s+(?<remaining>\d[\d\.]*)/
+// @P 0 (stopped), @P 1 (paused), @P 2 (playing), @P 3 (end of track with --keep-open)
+const MPG123_PLAYBACK_REGEX = /^@P\s+(?<state>\d)/
+// @PITCH 0.200000
+const MPG123_PITCH_REGEX = /^@PITCH\s+(?<pitch>-?\d[\d\.]*)/
+// @V 80.000000%
+const MPG123_VOLUME_REGEX = /^@V\s+(?<volume>\d[\d\.]*)%/
+// @R MPG123, @I ID3:..., @S 1.0 3 44100 ..., (but not @E errors)
+const MPG123_INFO_REGEX = /^@[A-DF-Z]/
+
+function parseMpg123Answer(line: string): StatusAnswer | undefined {
+  let matches = line.match(MPG123_FRAME_REGEX)
+  if (matches) {
+    const elapsed = parseFloat(matches.groups!['elapsed'])
+    const remaining = parseFloat(matches.groups!['remaining'])
+    return { elapsed: elapsed, duration: elapsed + remaining }
+  }
+  matches = line.match(MPG123_PITCH_REGEX)
+  if (matches) {
+    return { speed: 1 + parseFloat(matches.groups!['pitch']) }
+  }
+  matches = line.match(MPG123_VOLUME_REGEX)
+  if (matches) {
+    return { volume: parseFloat(matches.groups!['volume']) }
+  }
+  matches = line.match(MPG123_PLAYBACK_REGEX)
+  if (matches) {
+    const state = matches.groups!['state']
+    if (state === '1' || state === '2') {
+      return { paused: state === '1' }
+    } else {
+      return { ended: true }
+    }
+  }
+  if (MPG123_INFO_REGEX.test(line)) {
+    return {}
+  }
+}
+
+const PROFILES: ShellPlayerProfile[] = [{
+  name: 'powershell',
+  args: [
+    '-NoProfile',
+    '-ExecutionPolicy', 'Unrestricted',
+    '-File', '%SUPPORT_DIR%' + path.sep + 'play.ps1',
+    '-inputConfigPath', '%SUPPORT_DIR%' + path.sep + 'input.conf',
+    '-ss', '%POSITION_S%',
+    '-volume', '%VOLUME%',
+    '-thumbnailUrl', '%THUMBNAIL_URL%',
+    '%PATH%'
+  ],
+  startOffset: true,
+  controlMode: ControlMode.KEYS,
+  // see extra/input.conf
+  commands: {
+    [AudioBackendCommand.PAUSE]: 'p',
+    [AudioBackendCommand.SPEEDUP]: ']',
+    [AudioBackendCommand.SLOWDOWN]: '[',
+    [AudioBackendCommand.SKIP_FORWARD]: 'l',
+    [AudioBackendCommand.SKIP_BACKWARD]: 'k',
+    [AudioBackendCommand.VOLUME_UP]: '0',
+    [AudioBackendCommand.VOLUME_DOWN]: '9',
+    [AudioBackendCommand.MUTE]: 'm',
+  },
+  commandInfo: DEFAULT_COMMAND_INFO,
+  statusCommand: 's',
+  statusRegex: MPLAYER_STATUS_REGEX
+}, {
+  name: 'mpv',
+  args: [
+    '--no-video',
+    '--no-input-terminal', // ignore stdin, we use the IPC socket
+    '--msg-level=all=warn',
+    '--input-ipc-server=%IPC_PATH%',
+    '--start=%POSITION_S%',
+    '--volume=%VOLUME%',
+    '%PATH%'
+  ],
+  startOffset: true,
+  streaming: true,
+  controlMode: ControlMode.IPC,
+  // mpv input commands, sent over the IPC socket
+  commands: {
+    [AudioBackendCommand.PAUSE]: 'cycle pause',
+    [AudioBackendCommand.SPEEDUP]: 'add speed 0.2',
+    [AudioBackendCommand.SLOWDOWN]: 'add speed -0.2',
+    [AudioBackendCommand.SKIP_FORWARD]: 'seek 30',
+    [AudioBackendCommand.SKIP_BACKWARD]: 'seek -15',
+    [AudioBackendCommand.SEEK]: 'seek %VALUE% absolute',
+    [AudioBackendCommand.SET_SPEED]: 'set speed %VALUE%',
+    [AudioBackendCommand.VOLUME_UP]: 'add volume 10',
+    [AudioBackendCommand.VOLUME_DOWN]: 'add volume -10',
+    [AudioBackendCommand.SET_VOLUME]: 'set volume %VALUE%',
+    [AudioBackendCommand.MUTE]: 'cycle mute',
+  },
+  commandInfo: DEFAULT_COMMAND_INFO,
+  // ffmpeg filters, see https://ffmpeg.org/ffmpeg-filters.html
+  filterArgs: {
+    [AudioFilter.TRIM_SILENCE]: ['--af-add=lavfi=[silenceremove=stop_periods=-1:stop_duration=0.5:stop_threshold=-45dB]'],
+    [AudioFilter.VOICE_BOOST]: ['--af-add=lavfi=[dynaudnorm=f=250:g=15]'],
+  },
+  // see parseMpvPropertyChange()
+  observedProperties: ['time-pos', 'pause', 'speed', 'duration', 'volume', 'mute']
+}, {
+  name: 'mplayer',
+  args: [
+    '-slave', // read commands from stdin, see http://www.mplayerhq.hu/DOCS/tech/slave.txt
+    '-idle', // don't exit at the end of the file, we quit once we've seen the EOF notice
+    '-quiet',
+    '-msglevel', 'all=0:global=6', // output only answers to queries and the EOF notice
+    '-af', 'scaletempo', // avoid pitch change when speeding up or slowing down
+    '-softvol', // change the volume of the player instead of the system mixer
+    '-volume', '%VOLUME%',
+    '-ss', '%POSITION_S%',
+    '%PATH%'
+  ],
+  startOffset: true,
+  streaming: true,
+  controlMode: ControlMode.LINES,
+  // mplayer slave mode commands, see http://www.mplayerhq.hu/DOCS/tech/slave.txt
+  // Any command other than pausing_* ones unpauses playback.
+  commands: {
+    [AudioBackendCommand.PAUSE]: 'pause',
+    [AudioBackendCommand.SPEEDUP]: 'speed_incr 0.2',
+    [AudioBackendCommand.SLOWDOWN]: 'speed_incr -0.2',
+    [AudioBackendCommand.SKIP_FORWARD]: 'seek 30 0',
+    [AudioBackendCommand.SKIP_BACKWARD]: 'seek -15 0',
+    [AudioBackendCommand.SEEK]: 'seek %VALUE% 2',
+    [AudioBackendCommand.SET_SPEED]: 'speed_set %VALUE%',
+    [AudioBackendCommand.VOLUME_UP]: 'pausing_keep volume 10',
+    [AudioBackendCommand.VOLUME_DOWN]: 'pausing_keep volume -10',
+    [AudioBackendCommand.SET_VOLUME]: 'pausing_keep volume %VALUE% 1',
+    [AudioBackendCommand.MUTE]: 'pausing_keep mute',
+  },
+  commandInfo: DEFAULT_COMMAND_INFO,
+  statusCommand: [
+    'pausing_keep_force get_property pause',
+    'pausing_keep_force get_time_pos',
+    'pausing_keep_force get_property speed',
+    'pausing_keep_force get_time_length',
+    'pausing_keep_force get_property volume',
+    'pausing_keep_force get_property mute'
+  ].join(EOL),
+  quitCommand: 'quit',
+  parseAnswer: parseMplayerAnswer,
+  // mplayer has no filter for skipping silence
+  filterArgs: {
+    [AudioFilter.VOICE_BOOST]: ['-af-add', 'volnorm=2'],
+  }
+}, {
+  name: 'play',
+  args: [
+    '%PATH%',
+    'trim', '%POSITION_HHMMSS%'
+  ],
+  startOffset: true,
+  // sox effects, see "man sox"
+  filterArgs: {
+    [AudioFilter.TRIM_SILENCE]: ['silence', '-l', '1', '0.1', '1%', '-1', '0.5', '1%'],
+    [AudioFilter.VOICE_BOOST]: ['compand', '0.3,1', '6:-70,-60,-20', '-5', '-90', '0.2'],
+  }
+}, {
+  name: 'mpg123',
+  args: [
+    '-R', // generic remote interface, the file is loaded via initCommands
+  ],
+  startOffset: true,
+  streaming: true,
+  initCommands: [
+    'LOAD %PATH%',
+    'JUMP %POSITION_S%s',
+    'VOLUME %VOLUME%'
+  ],
+  controlMode: ControlMode.LINES,
+  // mpg123 generic remote interface commands, see "mpg123 -R" and then "HELP"
+  // PITCH changes speed by resampling, so the pitch changes as well.
+  commands: {
+    [AudioBackendCommand.PAUSE]: 'PAUSE',
+    [AudioBackendCommand.SPEEDUP]: 'PITCH +0.2',
+    [AudioBackendCommand.SLOWDOWN]: 'PITCH -0.2',
+    [AudioBackendCommand.SKIP_FORWARD]: 'JUMP +30s',
+    [AudioBackendCommand.SKIP_BACKWARD]: 'JUMP -15s',
+    [AudioBackendCommand.SEEK]: 'JUMP %VALUE%s',
+    [AudioBackendCommand.SET_VOLUME]: 'VOLUME %VALUE%',
+  },
+  commandInfo: DEFAULT_COMMAND_INFO,
+  quitCommand: 'QUIT',
+  parseAnswer: parseMpg123Answer
+}, {
+  // Frame#   334 [ 4035], Time: 00:08.01 [01:36.83],
+  // TODO add mpg321 status line regex
+  name: 'mpg321',
+  args: [
+    '-v',
+    '%PATH%'
+  ],
+  startOffset: false
+}]
+
+// Names of commands in user-defined profiles, see podcasts.player.profiles in package.json.
+const COMMAND_NAMES: {[name: string]: AudioBackendCommand} = {
+  'pause': AudioBackendCommand.PAUSE,
+  'speedup': AudioBackendCommand.SPEEDUP,
+  'slowdown': AudioBackendCommand.SLOWDOWN,
+  'skipForward': AudioBackendCommand.SKIP_FORWARD,
+  'skipBackward': AudioBackendCommand.SKIP_BACKWARD,
+  'seek': AudioBackendCommand.SEEK,
+  'setSpeed': AudioBackendCommand.SET_SPEED,
+  'volumeUp': AudioBackendCommand.VOLUME_UP,
+  'volumeDown': AudioBackendCommand.VOLUME_DOWN,
+  'setVolume': AudioBackendCommand.SET_VOLUME,
+  'mute': AudioBackendCommand.MUTE,
+}
+
+export function toShellPlayerProfile(cfg: PlayerProfileConfiguration): ShellPlayerProfile {
+  const name = path.basename(cfg.executable, path.extname(cfg.executable))
+  if (!cfg.args || !cfg.args.some(arg => arg.includes('%PATH%'))) {
+    throw new Error(`Player profile "${name}" must contain %PATH% in its arguments`)
+  }
+  const commands: CommandMap = {}
+  for (const [cmdName, keys] of Object.entries(cfg.commands || {})) {
+    const cmd = COMMAND_NAMES[cmdName]
+    if (cmd === undefined) {
+      throw new Error(`Player profile "${name}" has an unknown command "${cmdName}", ` +
+        `supported: ${Object.keys(COMMAND_NAMES).join(', ')}`)
+    }
+    commands[cmd] = keys
+  }
+  let statusRegex: RegExp | undefined
+  if (cfg.statusRegex) {
+    try {
+      statusRegex = new RegExp(cfg.statusRegex)
+    } catch (e) {
+      throw new Error(`Player profile "${name}" has an invalid status regex: ${e.message}`)
+    }
+    if (!cfg.statusRegex.includes('(?<elapsed>')) {
+      throw new Error(`Player profile "${name}" needs an "elapsed" group in its status regex`)
+    }
+  }
+  const hasCommands = Object.keys(commands).length > 0
+  return {
+    name: name,
+    executable: cfg.executable,
+    args: cfg.args,
+    startOffset: cfg.args.some(arg => arg.includes('%POSITION_S%') || arg.includes('%POSITION_HHMMSS%')),
+    streaming: !!cfg.streaming,
+    controlMode: hasCommands || statusRegex ? ControlMode.KEYS : undefined,
+    commands: hasCommands ? commands : undefined,
+    commandInfo: hasCommands ? getDefaultCommandInfo(commands) : undefined,
+    statusRegex: statusRegex
+  }
+}
+
+// Returns the profile of a known player, or a profile which only passes the audio file path.
+// User-defined profiles take precedence over built-in ones.
+export function getShellPlayerProfile(playerName: string, customProfiles: ShellPlayerProfile[] = []): ShellPlayerProfile {
+  const profile = customProfiles.find(p => p.name === playerName) || PROFILES.find(p => p.name === playerName)
+  if (profile) {
+    return profile
+  }
+  return {
+    name: playerName,
+    args: ['%PATH%'],
+    startOffset: false
+  }
+}
@@ -0,0 +1,157 @@
+import * as fs from 'fs'
+import { promisify } from 'util';
+import { ChapterMetadata } from './storage';
+
+const open = promisify(fs.open)
+const read = promisify(fs.read)
+const close = promisify(fs.close)
+
+// Podcasting 2.0 JSON chapters, see https://github.com/Podcastindex-org/podcast-namespace/blob/main/chapters/jsonChapters.md
+export function parseJsonChapters(json: any): ChapterMetadata[] {
+    if (!json || !Array.isArray(json.chapters)) {
+        throw new Error('Invalid JSON chapters, "chapters" array missing')
+    }
+    return json.chapters
+        .filter(chapter => typeof chapter.startTime === 'number' && chapter.toc !== false)
+        .map(chapter => ({
+            start: chapter.startTime,
+            title: chapter.title || '',
+            url: chapter.url
+        }))
+        .sort((a, b) => a.start - b.start)
+}
+
+// Podlove Simple Chapters use "HH:MM:SS.mmm", hours, minutes and milliseconds being optional,
+// see https://podlove.org/simple-chapters/
+export function parseNormalPlayTime(str: string): number | undefined {
+    const matches = str.trim().match(/^(?:(?:(\d+):)?(\d+):)?(\d+(?:\.\d+)?)$/)
+    if (!matches) {
+        return undefined
+    }
+    const [_, hours, minutes, seconds] = matches
+    return (hours ? parseInt(hours) * 3600 : 0) + (minutes ? parseInt(minutes) * 60 : 0) + parseFloat(seconds)
+}
+
+function syncsafeToInt(buf: Buffer, offset: number) {
+    return (buf[offset] << 21) | (buf[offset + 1] << 14) | (buf[offset + 2] << 7) | buf[offset + 3]
+}
+
+function decodeText(buf: Buffer): string {
+    const encoding = buf[0]
+    const data = buf.slice(1)
+    let text: string
+    switch (encoding) {
+        case 0: // ISO-8859-1
+            text = data.toString('latin1')
+            break
+        case 1: // UTF-16 with BOM
+            if (data[0] === 0xFE && data[1] === 0xFF) {
+                text = swapBytes(data.slice(2)).toString('utf16le')
+            } else {
+                text = data.slice(2).toString('utf16le')
+            }
+            break
+        case 2: // UTF-16BE without BOM
+            text = swapBytes(data).toString('utf16le')
+            break
+        default: // UTF-8
+            text = data.toString('utf8')
+    }
+    return text.replace(/\0+$/, '')
+}
+
+function swapBytes(buf: Buffer) {
+    const swapped = Buffer.alloc(buf.length - buf.length % 2)
+    for (let i = 0; i < swapped.length; i += 2) {
+        swapped[i] = buf[i + 1]
+        swapped[i + 1] = buf[i]
+    }
+    return swapped
+}
+
+interface Id3Frame {
+    id: string
+    data: Buffer
+}
+
+function* readFrames(buf: Buffer, version: number): IterableIterator<Id3Frame> {
+    let offset = 0
+    while (offset + 10 <= buf.length) {
+        const id = buf.toString('latin1', offset, offset + 4)
+        if (!/^[A-Z0-9]{4}$/.test(id)) {
+            // padding
+            return
+        }
+        const size = version === 4 ? syncsafeToInt(buf, offset + 4) : buf.readUInt32BE(offset + 4)
+        const start = offset + 10
+        yield { id, data: buf.slice(start, start + size) }
+        offset = start + size
+    }
+}
+
+// ID3v2.3/2.4 CHAP frames, see http://id3.org/id3v2-chapters-1.0
+export async function readId3Chapters(path: string): Promise<ChapterMetadata[]> {
+    const fd = await open(path, 'r')
+    try {
+        const header = Buffer.alloc(10)
+        await read(fd, header, 0, 10, 0)
+        if (header.toString('latin1', 0, 3) !== 'ID3') {
+            return []
+        }
+        const version = header[3]
+        if (version !== 3 && version !== 4) {
+            // ID3v2.2 has no chapter frames
+            return []
+        }
+        const flags = header[5]
+        const tagSize = syncsafeToInt(header, 6)
+        const tag = Buffer.alloc(tagSize)
+        await read(fd, tag, 0, tagSize, 10)
+
+        let framesStart = 0
+        if (flags & 0x40) {
+            // extended header
+            framesStart = version === 4 ? syncsafeToInt(tag, 0) : tag.readUInt32BE(0) + 4
+        }
+
+        const chapters: ChapterMetadata[] = []
+        for (const frame of readFrames(tag.slice(framesStart), version)) {
+            if (frame.id !== 'CHAP') {
+                continue
+            }
+            const elementIdEnd = frame.data.indexOf(0)
+            if (elementIdEnd === -1 || elementIdEnd + 17 > frame.data.length) {
+                continue
+            }
+            const startMs = frame.data.readUInt32BE(elementIdEnd + 1)
+            let title = frame.data.toString('latin1', 0, elementIdEnd)
+            let url: string | undefined
+            for (const subFrame of readFrames(frame.data.slice(elementIdEnd + 17), version)) {
+                if (subFrame.id === 'TIT2') {
+                    title = decodeText(subFrame.data)
+                } else if (subFrame.id === 'WXXX') {
+                    // description and URL, separated by a null terminator
+                    const sep = subFrame.data.indexOf(0, 1)
+                    url = subFrame.data.toString('latin1', sep + 1).replace(/\0+$/, '')
+                }
+            }
+            chapters.push({ start: startMs / 1000, title, url })
+        }
+        return chapters.sort((a, b) => a.start - b.start)
+    } finally {
+        await close(fd)
+    }
+}
+
+// Returns the index of the chapter containing the position, or -1 if before the first chapter.
+export function getChapterIndex(chapters: ChapterMetadata[], position: number) {
+    let idx = -1
+    for (let i = 0; i < chapters.length; i++) {
+        if (chapters[i].start <= position) {
+            idx = i
+        } else {
+            break
+        }
+    }
+    return idx
+}
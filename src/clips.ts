@@ -0,0 +1,58 @@
+import * as path from 'path'
+import { execFile } from 'child_process'
+import * as findExec from 'find-exec'
+import { toHHMMSS } from './util'
+
+// Timeout for cutting a clip, re-encoding short clips is fast.
+const CUT_TIMEOUT = 60 * 1000 // ms
+
+export interface ClipTags {
+    title: string
+    album: string
+    comment: string
+}
+
+function run(executable: string, args: string[]): Promise<void> {
+    return new Promise((resolve, reject) => {
+        execFile(executable, args, { timeout: CUT_TIMEOUT }, (error, _, stderr) => {
+            if (error) {
+                const details = stderr.toString().trim()
+                reject(new Error(`${path.basename(executable)} failed` + (details ? `: ${details}` : '')))
+            } else {
+                resolve()
+            }
+        })
+    })
+}
+
+// Returns undefined if neither ffmpeg nor sox is installed.
+export function findClipTool(): string | undefined {
+    return findExec(['ffmpeg', 'sox'])
+}
+
+// Cuts start..end (seconds) from the input file, re-encoding according to the output file extension.
+export async function cutAudioClip(toolPath: string, inputPath: string, outputPath: string,
+                                   start: number, end: number, tags: ClipTags) {
+    const tool = path.basename(toolPath, path.extname(toolPath))
+    if (tool === 'ffmpeg') {
+        await run(toolPath, [
+            '-y', '-v', 'error',
+            '-ss', start.toString(), '-t', (end - start).toString(), '-i', inputPath,
+            // don't copy the episode's tags and cover art
+            '-map_metadata', '-1', '-map', '0:a',
+            '-metadata', `title=${tags.title}`,
+            '-metadata', `album=${tags.album}`,
+            '-metadata', `comment=${tags.comment}`,
+            outputPath
+        ])
+    } else if (tool === 'sox') {
+        // sox can only write a comment, which then holds all tags
+        await run(toolPath, [
+            '--comment', `${tags.title} | ${tags.album} | ${tags.comment}`,
+            inputPath, outputPath,
+            'trim', toHHMMSS(start), '=' + toHHMMSS(end)
+        ])
+    } else {
+        throw new Error(`Unsupported clip tool: ${toolPath}`)
+    }
+}
@@ -0,0 +1,37 @@
+import { window } from "vscode";
+import { COMMANDS } from "../constants";
+import { Command } from "./command";
+import { Player } from "../player";
+import { Storage } from "../storage";
+import { AudioBackend } from "../backends/audioBackend";
+import { PlayerStatus } from "../types";
+import { toHHMMSS } from "../util";
+
+export class BookmarkPositionCommand implements Command {
+    COMMAND = COMMANDS.BOOKMARK_POSITION
+
+    constructor(private player: Player, private backend: AudioBackend, private storage: Storage,
+                private log: (msg: string) => void) {
+    }
+
+    async run() {
+        const feedUrl = this.player.getFeedUrl()
+        const guid = this.player.getGuid()
+        if (!feedUrl || (this.player.status !== PlayerStatus.PLAYING && this.player.status !== PlayerStatus.PAUSED)) {
+            window.showInformationMessage('No episode playing')
+            return
+        }
+        // Remember the moment before the user starts typing.
+        const position = Math.round(this.backend.position)
+        const note = await window.showInputBox({
+            prompt: `Add an optional note for the bookmark at ${toHHMMSS(position)}`,
+            placeHolder: 'Note'
+        })
+        if (note === undefined) {
+            return
+        }
+        this.storage.addBookmark(feedUrl, guid!, position, note.trim() || undefined)
+        await this.storage.saveMetadata({roaming: true})
+        window.setStatusBarMessage(`Bookmarked ${toHHMMSS(position)}`, 3000)
+    }
+}
@@ -0,0 +1,99 @@
+import { window, Uri, ProgressLocation } from "vscode";
+import * as os from 'os'
+import * as path from 'path'
+import { COMMANDS } from "../constants";
+import { Command } from "./command";
+import { Player } from "../player";
+import { Storage } from "../storage";
+import { AudioBackend } from "../backends/audioBackend";
+import { PlayerStatus } from "../types";
+import { toHHMMSS, fromHHMMSS } from "../util";
+import { findClipTool, cutAudioClip } from "../clips";
+
+const DEFAULT_CLIP_LENGTH = 30 // s
+
+function parseRange(value: string): [number, number] | undefined {
+    const parts = value.split('-')
+    if (parts.length !== 2) {
+        return undefined
+    }
+    const start = fromHHMMSS(parts[0])
+    const end = fromHHMMSS(parts[1])
+    if (start === undefined || end === undefined || start >= end) {
+        return undefined
+    }
+    return [start, end]
+}
+
+export class ExportClipCommand implements Command {
+    COMMAND = COMMANDS.EXPORT_CLIP
+
+    constructor(private player: Player, private backend: AudioBackend, private storage: Storage,
+                private log: (msg: string) => void) {
+    }
+
+    async run() {
+        const feedUrl = this.player.getFeedUrl()
+        const guid = this.player.getGuid()
+        if (!feedUrl || (this.player.status !== PlayerStatus.PLAYING && this.player.status !== PlayerStatus.PAUSED)) {
+            window.showInformationMessage('No episode playing')
+            return
+        }
+        const toolPath = findClipTool()
+        if (!toolPath) {
+            window.showErrorMessage('Exporting clips requires ffmpeg or sox, please install one of them')
+            return
+        }
+
+        const end = Math.round(this.backend.position)
+        const start = Math.max(0, end - DEFAULT_CLIP_LENGTH)
+        const input = await window.showInputBox({
+            prompt: 'Enter the range of the clip',
+            value: `${toHHMMSS(start)}-${toHHMMSS(end)}`,
+            validateInput: value => parseRange(value) === undefined
+                ? 'Expected a range like 1:23:15-1:23:45' : undefined
+        })
+        if (input === undefined) {
+            return
+        }
+        const [clipStart, clipEnd] = parseRange(input)!
+
+        const podcast = this.storage.getPodcast(feedUrl).local!
+        const episode = this.storage.getEpisode(feedUrl, guid!).local!
+
+        const enclosurePath = await window.withProgress({
+            location: ProgressLocation.Notification,
+            title: 'Downloading episode for the clip',
+            cancellable: true
+        }, async (progress, token) => {
+            let lastRatio = 0
+            return await this.storage.fetchEpisodeEnclosure(feedUrl, guid!, ratio => {
+                progress.report({ increment: (ratio - lastRatio) * 100 })
+                lastRatio = ratio
+            }, token)
+        })
+
+        const ext = path.extname(enclosurePath)
+        // ":" of the timestamp and other characters invalid in filenames on Windows
+        const filename = `${episode.title} ${toHHMMSS(clipStart)}`.replace(/[\\/:*?"<>|]+/g, '_')
+        const uri = await window.showSaveDialog({
+            saveLabel: 'Export clip',
+            defaultUri: Uri.file(path.join(os.homedir(), filename + ext)),
+            filters: { 'Audio': [ext.substr(1)] }
+        })
+        if (!uri) {
+            return
+        }
+
+        this.log(`Exporting ${toHHMMSS(clipStart)}-${toHHMMSS(clipEnd)} of ${enclosurePath} to ${uri.fsPath}`)
+        await window.withProgress({
+            location: ProgressLocation.Notification,
+            title: 'Exporting clip'
+        }, () => cutAudioClip(toolPath, enclosurePath, uri.fsPath, clipStart, clipEnd, {
+            title: episode.title,
+            album: podcast.title,
+            comment: `${toHHMMSS(clipStart)}-${toHHMMSS(clipEnd)}`
+        }))
+        window.setStatusBarMessage(`Exported clip to ${path.basename(uri.fsPath)}`, 3000)
+    }
+}
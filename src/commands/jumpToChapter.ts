@@ -0,0 +1,37 @@
+import { window, QuickPickItem } from "vscode";
+import { COMMANDS } from "../constants";
+import { Command } from "./command";
+import { Player } from "../player";
+import { toHHMMSS } from "../util";
+
+interface ChapterItem extends QuickPickItem {
+    index: number
+}
+
+export class JumpToChapterCommand implements Command {
+    COMMAND = COMMANDS.JUMP_TO_CHAPTER
+
+    constructor(private player: Player, private log: (msg: string) => void) {
+    }
+
+    async run() {
+        const chapters = this.player.getChapters()
+        if (chapters.length === 0) {
+            window.showInformationMessage('Episode has no chapters')
+            return
+        }
+        const currentIdx = this.player.getCurrentChapterIndex()
+        const items: ChapterItem[] = chapters.map((chapter, index) => ({
+            label: chapter.title || `Chapter ${index + 1}`,
+            description: toHHMMSS(chapter.start) + (index === currentIdx ? ' (current)' : ''),
+            index: index
+        }))
+        const pick = await window.showQuickPick(items, {
+            placeHolder: 'Choose a chapter'
+        })
+        if (!pick) {
+            return
+        }
+        this.player.jumpToChapter(pick.index)
+    }
+}
@@ -0,0 +1,27 @@
+import { window } from "vscode";
+import { COMMANDS } from "../constants";
+import { Command } from "./command";
+import { Player } from "../player";
+import { AudioBackend } from "../backends/audioBackend";
+import { toHHMMSS, fromHHMMSS } from "../util";
+
+export class JumpToPositionCommand implements Command {
+    COMMAND = COMMANDS.JUMP_TO_POSITION
+
+    constructor(private player: Player, private backend: AudioBackend,
+                private log: (msg: string) => void) {
+    }
+
+    async run() {
+        const input = await window.showInputBox({
+            prompt: `Enter a position between 00:00:00 and ${toHHMMSS(this.backend.duration)}`,
+            value: toHHMMSS(this.backend.position),
+            validateInput: value => fromHHMMSS(value) === undefined
+                ? 'Expected a position like 1:23:45, 23:45 or 45' : undefined
+        })
+        if (input === undefined) {
+            return
+        }
+        this.player.seek(fromHHMMSS(input)!)
+    }
+}
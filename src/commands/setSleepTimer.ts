@@ -0,0 +1,56 @@
+import { window, QuickPickItem } from "vscode";
+import { COMMANDS } from "../constants";
+import { Command } from "./command";
+import { Player } from "../player";
+import { SleepTimerMode } from "../types";
+import { toHumanDuration } from "../util";
+
+const MINUTES = [15, 30, 60]
+
+interface SleepTimerItem extends QuickPickItem {
+    mode?: SleepTimerMode // cancels the timer if undefined
+    minutes?: number
+}
+
+export class SetSleepTimerCommand implements Command {
+    COMMAND = COMMANDS.SET_SLEEP_TIMER
+
+    constructor(private player: Player, private log: (msg: string) => void) {
+    }
+
+    async run() {
+        const items: SleepTimerItem[] = MINUTES.map(minutes => ({
+            label: `${minutes} min`,
+            mode: 'minutes' as SleepTimerMode,
+            minutes: minutes
+        }))
+        items.push({
+            label: 'End of episode',
+            mode: 'endOfEpisode'
+        })
+        if (this.player.getChapters().length > 0) {
+            items.push({
+                label: 'End of chapter',
+                mode: 'endOfChapter'
+            })
+        }
+        if (this.player.getSleepTimerMode()) {
+            const remaining = this.player.getSleepTimerRemaining()
+            items.push({
+                label: 'Cancel sleep timer',
+                description: remaining !== undefined ? toHumanDuration(remaining) + ' left' : undefined
+            })
+        }
+        const pick = await window.showQuickPick(items, {
+            placeHolder: 'Stop playback after'
+        })
+        if (!pick) {
+            return
+        }
+        if (pick.mode) {
+            this.player.setSleepTimer(pick.mode, pick.minutes)
+        } else {
+            this.player.cancelSleepTimer()
+        }
+    }
+}
@@ -0,0 +1,36 @@
+import { window, QuickPickItem } from "vscode";
+import { COMMANDS } from "../constants";
+import { Command } from "./command";
+import { Player } from "../player";
+import { AudioBackend } from "../backends/audioBackend";
+import { toFixed } from "../util";
+
+export const SPEEDS = [0.8, 1.0, 1.2, 1.4, 1.5, 1.6, 1.8, 2.0, 2.5]
+
+interface SpeedItem extends QuickPickItem {
+    speed: number
+}
+
+export class SetSpeedCommand implements Command {
+    COMMAND = COMMANDS.SET_SPEED
+
+    constructor(private player: Player, private backend: AudioBackend,
+                private log: (msg: string) => void) {
+    }
+
+    async run() {
+        const currentSpeed = this.backend.speed
+        const items: SpeedItem[] = SPEEDS.map(speed => ({
+            label: toFixed(speed, 1) + 'x',
+            description: Math.abs(speed - currentSpeed) < 0.05 ? 'current' : undefined,
+            speed: speed
+        }))
+        const pick = await window.showQuickPick(items, {
+            placeHolder: 'Choose a playback speed'
+        })
+        if (!pick) {
+            return
+        }
+        this.player.setSpeed(pick.speed)
+    }
+}
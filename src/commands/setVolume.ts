@@ -0,0 +1,26 @@
+import { window } from "vscode";
+import { COMMANDS } from "../constants";
+import { Command } from "./command";
+import { Player } from "../player";
+import { AudioBackend } from "../backends/audioBackend";
+
+export class SetVolumeCommand implements Command {
+    COMMAND = COMMANDS.SET_VOLUME
+
+    constructor(private player: Player, private backend: AudioBackend,
+                private log: (msg: string) => void) {
+    }
+
+    async run() {
+        const input = await window.showInputBox({
+            prompt: 'Enter a volume between 0 and 100',
+            value: Math.round(this.backend.volume).toString(),
+            validateInput: value => /^\d+$/.test(value.trim()) && parseInt(value) <= 100
+                ? undefined : 'Expected a number between 0 and 100'
+        })
+        if (input === undefined) {
+            return
+        }
+        this.player.setVolume(parseInt(input))
+    }
+}
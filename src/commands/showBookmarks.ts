@@ -0,0 +1,116 @@
+import { window, QuickPickItem, QuickInputButton, QuickInputButtons, commands, ProgressOptions,
+         ProgressLocation } from "vscode";
+import { COMMANDS } from "../constants";
+import { Command } from "./command";
+import { Storage, Bookmark } from "../storage";
+import { toHHMMSS, toHumanTimeAgo } from "../util";
+import { Player } from "../player";
+import { Resources } from "../resources";
+
+interface BookmarkItem extends QuickPickItem {
+    bookmark: Bookmark
+}
+
+export class ShowBookmarksCommand implements Command {
+    COMMAND = COMMANDS.SHOW_BOOKMARKS
+
+    constructor(private storage: Storage, private resources: Resources, private player: Player,
+                private log: (msg: string) => void) {
+    }
+
+    private getItems(): BookmarkItem[] {
+        const items: BookmarkItem[] = []
+        for (const bookmark of this.storage.getBookmarks()) {
+            const podcast = this.storage.getPodcast(bookmark.feedUrl)
+            const episode = this.storage.getEpisode(bookmark.feedUrl, bookmark.guid)
+            // The feed may not be loaded on this machine or be outdated, it is fetched when picked.
+            const episodeTitle = episode.local ? episode.local.title : bookmark.episodeTitle
+            const podcastTitle = podcast.local ? podcast.local.title : bookmark.podcastTitle
+            items.push({
+                label: `$(bookmark) ${toHHMMSS(bookmark.position)}` + (bookmark.note ? ` ${bookmark.note}` : ''),
+                description: episodeTitle || 'Unknown episode',
+                detail: (podcastTitle || bookmark.feedUrl) + ' | ' + toHumanTimeAgo(bookmark.created),
+                bookmark: bookmark
+            })
+        }
+        items.sort((a, b) => b.bookmark.created - a.bookmark.created)
+        return items
+    }
+
+    async run() {
+        const picker = window.createQuickPick<BookmarkItem>()
+        picker.ignoreFocusOut = true
+        picker.matchOnDescription = true
+        picker.matchOnDetail = true
+        picker.title = 'Bookmarks'
+        picker.placeholder = 'Pick a bookmark to play the episode from there'
+        picker.items = this.getItems()
+
+        const removeButton: QuickInputButton = {
+            iconPath: this.resources.getIconPath('trash'),
+            tooltip: 'Remove Selected Bookmark'
+        }
+
+        picker.buttons = [QuickInputButtons.Back, removeButton]
+
+        picker.onDidTriggerButton(async btn => {
+            if (btn == QuickInputButtons.Back) {
+                commands.executeCommand(COMMANDS.SHOW_MAIN_COMMANDS)
+                picker.dispose()
+            } else if (btn == removeButton) {
+                const item = picker.activeItems[0]
+                if (!item) {
+                    return
+                }
+                this.storage.removeBookmark(item.bookmark.feedUrl, item.bookmark.guid, item.bookmark.created)
+                this.storage.saveMetadata({roaming: true})
+                picker.items = this.getItems()
+            }
+        })
+
+        const pickerPromise = new Promise<BookmarkItem | undefined>((resolve, _) => {
+            picker.onDidAccept(() => {
+                resolve(picker.selectedItems[0])
+                picker.dispose()
+            })
+            picker.onDidHide(() => {
+                resolve(undefined)
+                picker.dispose()
+            })
+        })
+
+        picker.show()
+
+        const pick = await pickerPromise
+        if (!pick) {
+            return
+        }
+        const { feedUrl, guid } = pick.bookmark
+        if (!this.storage.getEpisode(feedUrl, guid).local) {
+            const progressOpts: ProgressOptions = {
+                cancellable: false,
+                location: ProgressLocation.Notification,
+                title: 'Loading podcast feed...'
+            }
+            const loaded = await window.withProgress(progressOpts, async () => {
+                try {
+                    // updates outdated feeds, the episode may have been published since
+                    await this.storage.fetchPodcast(feedUrl, Date.now())
+                    return true
+                } catch (e) {
+                    this.log(`Feed ${feedUrl} could not be loaded: ${e}`)
+                    return false
+                }
+            })
+            if (!loaded) {
+                window.showErrorMessage('Feed failed to load, see log for details.')
+                return
+            }
+            if (!this.storage.getEpisode(feedUrl, guid).local) {
+                window.showErrorMessage('The bookmarked episode is no longer available in the feed.')
+                return
+            }
+        }
+        await this.player.play(feedUrl, guid, pick.bookmark.position)
+    }
+}
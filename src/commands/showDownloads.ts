@@ -0,0 +1,92 @@
+import { window, QuickPickItem, QuickInputButtons, commands } from "vscode";
+import { COMMANDS } from "../constants";
+import { Command } from "./command";
+import { DownloadManager, DownloadInfo } from "../downloadManager";
+import { toHumanSize } from "../util";
+
+interface DownloadItem extends QuickPickItem {
+    key: string
+}
+
+export class ShowDownloadsCommand implements Command {
+    COMMAND = COMMANDS.SHOW_DOWNLOADS
+
+    constructor(private downloads: DownloadManager, private log: (msg: string) => void) {
+    }
+
+    private getItems(): DownloadItem[] {
+        return this.downloads.getDownloads().map(download => ({
+            label: download.title,
+            description: this.getProgress(download),
+            detail: download.url,
+            key: download.key
+        }))
+    }
+
+    private getProgress(download: DownloadInfo) {
+        if (download.status === 'queued') {
+            return 'Queued'
+        }
+        let progress = toHumanSize(download.received)
+        if (download.total) {
+            progress = `${Math.round(download.received / download.total * 100)}% of ${toHumanSize(download.total)}`
+        }
+        if (download.status === 'waitingForRetry') {
+            progress += ' | Waiting to retry'
+        } else if (download.retries > 0) {
+            progress += ` | Retry ${download.retries}`
+        }
+        return progress
+    }
+
+    async run() {
+        const picker = window.createQuickPick<DownloadItem>()
+        picker.ignoreFocusOut = true
+        picker.matchOnDetail = true
+        picker.title = 'Downloads'
+        picker.items = this.getItems()
+        picker.buttons = [QuickInputButtons.Back]
+
+        const updatePlaceholder = () => {
+            picker.placeholder = picker.items.length > 0 ? 'Pick a download to cancel it' : 'No downloads in progress'
+        }
+        updatePlaceholder()
+
+        const listener = this.downloads.onDidChange(() => {
+            picker.items = this.getItems()
+            updatePlaceholder()
+        })
+
+        picker.onDidTriggerButton(async btn => {
+            if (btn == QuickInputButtons.Back) {
+                commands.executeCommand(COMMANDS.SHOW_MAIN_COMMANDS)
+            }
+            picker.dispose()
+        })
+
+        const pickerPromise = new Promise<DownloadItem | undefined>((resolve, _) => {
+            picker.onDidAccept(() => {
+                resolve(picker.selectedItems[0])
+                picker.dispose()
+            })
+            picker.onDidHide(() => {
+                resolve(undefined)
+                picker.dispose()
+            })
+        })
+
+        picker.show()
+
+        const pick = await pickerPromise
+        listener.dispose()
+        if (!pick) {
+            return
+        }
+        const cancel = 'Cancel Download'
+        const confirmation = await window.showWarningMessage(
+            `Cancel the download of "${pick.label}"? Data downloaded so far is deleted.`, { modal: true }, cancel)
+        if (confirmation === cancel) {
+            this.downloads.cancel(pick.key)
+        }
+    }
+}
@@ -1,9 +1,10 @@
-import { window, QuickPickItem, QuickInputButtons, commands } from "vscode";
+import { window, QuickPickItem, QuickInputButton, QuickInputButtons, commands } from "vscode";
 import { COMMANDS } from "../constants";
 import { Command } from "./command";
 import { Storage } from "../storage";
 import { toHumanDuration, toHumanTimeAgo } from "../util";
 import { Player } from "../player";
+import { Resources } from "../resources";
 
 interface ListenedEpisodeItem extends QuickPickItem {
     feedUrl: string
@@ -14,7 +15,7 @@ interface ListenedEpisodeItem extends QuickPickItem {
 export class ShowHistoryCommand implements Command {
     COMMAND = COMMANDS.SHOW_HISTORY
 
-    constructor(private storage: Storage, private player: Player,
+    constructor(private storage: Storage, private resources: Resources, private player: Player,
                 private log: (msg: string) => void) {
     }
 
@@ -62,13 +63,32 @@ export class ShowHistoryCommand implements Command {
         picker.title = 'Listening history'
         picker.placeholder = 'Pick an episode to play'
         picker.items = items
-        picker.buttons = [QuickInputButtons.Back]
+
+        const playNextButton: QuickInputButton = {
+            iconPath: this.resources.getIconPath('play-next'),
+            tooltip: 'Play Selected Episode Next'
+        }
+
+        const addToQueueButton: QuickInputButton = {
+            iconPath: this.resources.getIconPath('add-to-queue'),
+            tooltip: 'Add Selected Episode to Queue'
+        }
+
+        picker.buttons = [QuickInputButtons.Back, playNextButton, addToQueueButton]
 
         picker.onDidTriggerButton(async btn => {
             if (btn == QuickInputButtons.Back) {
                 commands.executeCommand(COMMANDS.SHOW_MAIN_COMMANDS)
+                picker.dispose()
+            } else if (btn == playNextButton || btn == addToQueueButton) {
+                const item = picker.activeItems[0]
+                if (!item) {
+                    return
+                }
+                this.storage.addToQueue(item.feedUrl, item.guid, btn == playNextButton)
+                this.storage.saveMetadata({roaming: true})
+                window.setStatusBarMessage(`Queued: ${item.label}`, 3000)
             }
-            picker.dispose()
         })
 
         const pickerPromise = new Promise<ListenedEpisodeItem | undefined>((resolve, _) => {
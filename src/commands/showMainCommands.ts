@@ -22,6 +22,15 @@ export class ShowMainCommandsCommand implements Command {
         }, {
             cmd: COMMANDS.SHOW_HISTORY,
             label: 'Show listening history'
+        }, {
+            cmd: COMMANDS.SHOW_QUEUE,
+            label: 'Show queue'
+        }, {
+            cmd: COMMANDS.SHOW_BOOKMARKS,
+            label: 'Show bookmarks'
+        }, {
+            cmd: COMMANDS.SHOW_DOWNLOADS,
+            label: 'Show downloads'
         }, {
             cmd: COMMANDS.SEARCH_EPISODES,
             label: 'Search episodes using Listen Notes'
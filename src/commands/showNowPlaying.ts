@@ -0,0 +1,14 @@
+import { COMMANDS } from "../constants";
+import { Command } from "./command";
+import { NowPlayingPanel } from "../nowPlaying";
+
+export class ShowNowPlayingCommand implements Command {
+    COMMAND = COMMANDS.SHOW_NOW_PLAYING
+
+    constructor(private panel: NowPlayingPanel, private log: (msg: string) => void) {
+    }
+
+    async run() {
+        this.panel.show()
+    }
+}
@@ -2,8 +2,10 @@ import { window, QuickPickItem, commands } from "vscode";
 import { COMMANDS } from "../constants";
 import { Command } from "./command";
 import { Player } from "../player";
-import { ShellPlayer, ShellPlayerCommand } from "../shellPlayer";
+import { AudioBackend, AudioBackendCommand, AudioFilter, supportsCommand, supportsFilter,
+         getCommandInfo } from "../backends/audioBackend";
 import { PlayerStatus } from "../types";
+import { toHumanDuration } from "../util";
 
 interface CommandItem extends QuickPickItem {
     cmd: string
@@ -13,14 +15,13 @@ interface CommandItem extends QuickPickItem {
 export class ShowPlayerCommandsCommand implements Command {
     COMMAND = COMMANDS.SHOW_PLAYER_COMMANDS
 
-    constructor(private player: Player, private shellPlayer: ShellPlayer,
+    constructor(private player: Player, private backend: AudioBackend,
                 private log: (msg: string) => void) {
     }
 
     async run() {
         const items: CommandItem[] = []
         const status = this.player.status
-        const supportsCmds = this.shellPlayer.supportsCommands()
         // NOTE: When changing conditions, also change in package.json.
         if (status === PlayerStatus.DOWNLOADING) {
             items.push({
@@ -30,6 +31,10 @@ export class ShowPlayerCommandsCommand implements Command {
         }
         if (status !== PlayerStatus.STOPPED) {
             const feedUrl = this.player.getFeedUrl()
+            items.push({
+                cmd: COMMANDS.SHOW_NOW_PLAYING,
+                label: 'Show Now Playing panel'
+            })
             items.push({
                 cmd: COMMANDS.SHOW_PODCAST,
                 cmdArg: feedUrl,
@@ -45,7 +50,7 @@ export class ShowPlayerCommandsCommand implements Command {
             }
         }
         if (status === PlayerStatus.PLAYING || status === PlayerStatus.PAUSED) {
-            if (supportsCmds) {
+            if (supportsCommand(this.backend, AudioBackendCommand.PAUSE)) {
                 items.push({
                     cmd: COMMANDS.PAUSE,
                     label: status === PlayerStatus.PLAYING ? 'Pause' : 'Unpause'
@@ -59,30 +64,128 @@ export class ShowPlayerCommandsCommand implements Command {
                 cmd: COMMANDS.RESTART,
                 label: 'Restart'
             })
+            const filters = this.player.getAudioFilters()
+            if (supportsFilter(this.backend, AudioFilter.TRIM_SILENCE)) {
+                items.push({
+                    cmd: COMMANDS.TOGGLE_TRIM_SILENCE,
+                    label: 'Trim silence',
+                    description: filters.includes(AudioFilter.TRIM_SILENCE) ? 'on' : 'off',
+                    detail: 'Remembered for this podcast, restarts playback'
+                })
+            }
+            if (supportsFilter(this.backend, AudioFilter.VOICE_BOOST)) {
+                items.push({
+                    cmd: COMMANDS.TOGGLE_VOICE_BOOST,
+                    label: 'Voice boost',
+                    description: filters.includes(AudioFilter.VOICE_BOOST) ? 'on' : 'off',
+                    detail: 'Remembered for this podcast, restarts playback'
+                })
+            }
+            items.push({
+                cmd: COMMANDS.BOOKMARK_POSITION,
+                label: 'Bookmark current position...'
+            })
+            items.push({
+                cmd: COMMANDS.EXPORT_CLIP,
+                label: 'Export audio clip...',
+                description: 'Requires ffmpeg or sox'
+            })
+            items.push({
+                cmd: COMMANDS.SET_SLEEP_TIMER,
+                label: 'Sleep timer...',
+                description: this.player.getSleepTimerMode() ?
+                    toHumanDuration(this.player.getSleepTimerRemaining(), 'active') : undefined
+            })
+            const volume = `${Math.round(this.backend.volume)}%`
+            if (supportsCommand(this.backend, AudioBackendCommand.VOLUME_DOWN)) {
+                const volumeDownStep = getCommandInfo(this.backend, AudioBackendCommand.VOLUME_DOWN)
+                items.push({
+                    cmd: COMMANDS.VOLUME_DOWN,
+                    label: 'Volume down',
+                    description: `${volumeDownStep}% (${volume})`
+                })
+            }
+            if (supportsCommand(this.backend, AudioBackendCommand.VOLUME_UP)) {
+                const volumeUpStep = getCommandInfo(this.backend, AudioBackendCommand.VOLUME_UP)
+                items.push({
+                    cmd: COMMANDS.VOLUME_UP,
+                    label: 'Volume up',
+                    description: `+${volumeUpStep}% (${volume})`
+                })
+            }
+            if (supportsCommand(this.backend, AudioBackendCommand.SET_VOLUME)) {
+                items.push({
+                    cmd: COMMANDS.SET_VOLUME,
+                    label: 'Set volume...',
+                    description: volume
+                })
+            }
+            if (supportsCommand(this.backend, AudioBackendCommand.MUTE)) {
+                items.push({
+                    cmd: COMMANDS.MUTE,
+                    label: this.backend.muted ? 'Unmute' : 'Mute'
+                })
+            }
         }
         if (status === PlayerStatus.PLAYING) {
-            if (supportsCmds) {
-                const skipBwdSecs = this.shellPlayer.getCommandInfo(ShellPlayerCommand.SKIP_BACKWARD)
-                const skipFwdSecs = this.shellPlayer.getCommandInfo(ShellPlayerCommand.SKIP_FORWARD)
-                const slowdownRatio = this.shellPlayer.getCommandInfo(ShellPlayerCommand.SLOWDOWN)
-                const speedupRatio = this.shellPlayer.getCommandInfo(ShellPlayerCommand.SPEEDUP)
-                items.push(...[{
+            if (supportsCommand(this.backend, AudioBackendCommand.SKIP_BACKWARD)) {
+                const skipBwdSecs = getCommandInfo(this.backend, AudioBackendCommand.SKIP_BACKWARD)
+                items.push({
                     cmd: COMMANDS.SKIP_BACKWARD,
                     label: 'Skip backward',
                     description: `${skipBwdSecs}s`
-                }, {
+                })
+            }
+            if (supportsCommand(this.backend, AudioBackendCommand.SKIP_FORWARD)) {
+                const skipFwdSecs = getCommandInfo(this.backend, AudioBackendCommand.SKIP_FORWARD)
+                items.push({
                     cmd: COMMANDS.SKIP_FORWARD,
                     label: 'Skip forward',
                     description: `+${skipFwdSecs}s`
-                }, {
+                })
+            }
+            if (supportsCommand(this.backend, AudioBackendCommand.SLOWDOWN)) {
+                const slowdownRatio = getCommandInfo(this.backend, AudioBackendCommand.SLOWDOWN)
+                items.push({
                     cmd: COMMANDS.SLOWDOWN,
                     label: 'Slow down',
                     description: `${Math.round(slowdownRatio*100)}%`
-                }, {
+                })
+            }
+            if (supportsCommand(this.backend, AudioBackendCommand.SPEEDUP)) {
+                const speedupRatio = getCommandInfo(this.backend, AudioBackendCommand.SPEEDUP)
+                items.push({
                     cmd: COMMANDS.SPEEDUP,
                     label: 'Speed up',
                     description: `+${Math.round(speedupRatio*100)}%`
-                }])
+                })
+            }
+            if (supportsCommand(this.backend, AudioBackendCommand.SEEK)) {
+                items.push({
+                    cmd: COMMANDS.JUMP_TO_POSITION,
+                    label: 'Jump to position...'
+                })
+                const chapters = this.player.getChapters()
+                if (chapters.length > 0) {
+                    const idx = this.player.getCurrentChapterIndex()
+                    items.push({
+                        cmd: COMMANDS.JUMP_TO_CHAPTER,
+                        label: 'Jump to chapter...',
+                        description: idx === -1 ? undefined : chapters[idx].title
+                    }, {
+                        cmd: COMMANDS.PREVIOUS_CHAPTER,
+                        label: 'Previous chapter'
+                    }, {
+                        cmd: COMMANDS.NEXT_CHAPTER,
+                        label: 'Next chapter'
+                    })
+                }
+            }
+            if (supportsCommand(this.backend, AudioBackendCommand.SET_SPEED)) {
+                items.push({
+                    cmd: COMMANDS.SET_SPEED,
+                    label: 'Set speed...'
+                })
             }
         }
         const pick = await window.showQuickPick(items, {
@@ -3,7 +3,8 @@ import { COMMANDS } from "../constants";
 import { Command } from "./command";
 import { Storage, PodcastMetadata } from "../storage";
 import { Player } from "../player";
-import { toHumanDuration, toHumanTimeAgo } from "../util";
+import { toHumanDuration, toHumanTimeAgo, toFixed, fromHHMMSS } from "../util";
+import { SPEEDS } from "./setSpeed";
 import { ListenNotes } from "../listenNotes";
 import { Resources } from "../resources";
 
@@ -12,6 +13,14 @@ interface EpisodeItem extends QuickPickItem {
     published?: number
 }
 
+interface PreferenceItem extends QuickPickItem {
+    preference: 'speed' | 'introSkip' | 'outroSkip'
+}
+
+interface SpeedItem extends QuickPickItem {
+    speed?: number // default speed if undefined
+}
+
 export class ShowPodcastCommand implements Command {
     COMMAND = COMMANDS.SHOW_PODCAST
 
@@ -77,6 +86,21 @@ export class ShowPodcastCommand implements Command {
             tooltip: 'Remove from Starred Podcasts'
         }
 
+        const playNextButton: QuickInputButton = {
+            iconPath: this.resources.getIconPath('play-next'),
+            tooltip: 'Play Selected Episode Next'
+        }
+
+        const addToQueueButton: QuickInputButton = {
+            iconPath: this.resources.getIconPath('add-to-queue'),
+            tooltip: 'Add Selected Episode to Queue'
+        }
+
+        const preferencesButton: QuickInputButton = {
+            iconPath: this.resources.getIconPath('preferences'),
+            tooltip: 'Edit Playback Preferences'
+        }
+
         const items = getEpisodeItems(podcast)
         if (!items.some((item) => item.published === undefined)) {
             items.sort((a,b) => b.published! - a.published!)
@@ -89,7 +113,10 @@ export class ShowPodcastCommand implements Command {
 
         const setButtons = () => {
             const buttons: QuickInputButton[] = []
+            buttons.push(playNextButton)
+            buttons.push(addToQueueButton)
             buttons.push(this.storage.isStarredPodcast(feedUrl) ? unstarButton : starButton)
+            buttons.push(preferencesButton)
             buttons.push(websiteButton)
             buttons.push(refreshButton)
             if (prevCmd) {
@@ -115,6 +142,10 @@ export class ShowPodcastCommand implements Command {
                 }
                 podcast = this.storage.getPodcast(feedUrl!)
                 episodePicker.items = getEpisodeItems(podcast)
+            } else if (btn == preferencesButton) {
+                episodePicker.dispose()
+                await this.editPreferences(feedUrl)
+                commands.executeCommand(COMMANDS.SHOW_PODCAST, feedUrl, false, prevCmd, prevCmdArg)
             } else if (btn == websiteButton) {
                 env.openExternal(Uri.parse(podcast.local!.homepageUrl))
             } else if (btn == starButton) {
@@ -125,6 +156,14 @@ export class ShowPodcastCommand implements Command {
                 this.storage.starPodcast(feedUrl, false)
                 this.storage.saveMetadata({roaming: true})
                 setButtons()
+            } else if (btn == playNextButton || btn == addToQueueButton) {
+                const item = episodePicker.activeItems[0]
+                if (!item) {
+                    return
+                }
+                this.storage.addToQueue(feedUrl, item.guid, btn == playNextButton)
+                this.storage.saveMetadata({roaming: true})
+                window.setStatusBarMessage(`Queued: ${item.label}`, 3000)
             }
         })
         const episodePickerPromise = new Promise<EpisodeItem | undefined>((resolve, _) => {
@@ -145,4 +184,58 @@ export class ShowPodcastCommand implements Command {
 
         await this.player.play(feedUrl, pick.guid)
     }
+
+    private async editPreferences(feedUrl: string) {
+        const preferences = this.storage.getPodcastPreferences(feedUrl)
+        const toSeconds = (sec?: number) => sec ? `${sec} s` : 'off'
+        const items: PreferenceItem[] = [{
+            label: 'Speed',
+            description: preferences.speed ? toFixed(preferences.speed, 1) + 'x' : 'default',
+            preference: 'speed'
+        }, {
+            label: 'Skip intro',
+            description: toSeconds(preferences.introSkip),
+            preference: 'introSkip'
+        }, {
+            label: 'Skip outro',
+            description: toSeconds(preferences.outroSkip),
+            preference: 'outroSkip'
+        }]
+        const pick = await window.showQuickPick(items, {
+            placeHolder: 'Choose a playback preference for this podcast'
+        })
+        if (!pick) {
+            return
+        }
+        const updated = Object.assign({}, preferences)
+        if (pick.preference === 'speed') {
+            const speedItems: SpeedItem[] = [{ label: 'Default' }]
+            speedItems.push(...SPEEDS.map(speed => ({
+                label: toFixed(speed, 1) + 'x',
+                speed: speed
+            })))
+            const speedPick = await window.showQuickPick(speedItems, {
+                placeHolder: 'Choose a playback speed for this podcast'
+            })
+            if (!speedPick) {
+                return
+            }
+            updated.speed = speedPick.speed
+        } else {
+            const input = await window.showInputBox({
+                prompt: `Enter the seconds to skip at the ${pick.preference === 'introSkip' ? 'start' : 'end'} ` +
+                    'of each episode, or leave empty to turn off',
+                value: preferences[pick.preference] ? preferences[pick.preference]!.toString() : '',
+                validateInput: value => value.trim() && fromHHMMSS(value) === undefined
+                    ? 'Expected a duration like 90 or 1:30' : undefined
+            })
+            if (input === undefined) {
+                return
+            }
+            updated[pick.preference] = input.trim() ? fromHHMMSS(input) : undefined
+        }
+        this.log(`Updating playback preferences of ${feedUrl}`)
+        this.storage.setPodcastPreferences(feedUrl, updated)
+        await this.storage.saveMetadata({roaming: true})
+    }
 }
\ No newline at end of file
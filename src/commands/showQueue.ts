@@ -0,0 +1,134 @@
+import { window, QuickPickItem, QuickInputButtons, commands } from "vscode";
+import { COMMANDS } from "../constants";
+import { Command } from "./command";
+import { Storage } from "../storage";
+import { toHumanDuration } from "../util";
+import { Player } from "../player";
+
+interface QueuedEpisodeItem extends QuickPickItem {
+    feedUrl: string
+    guid: string
+    index: number
+}
+
+interface ActionItem extends QuickPickItem {
+    action: 'play' | 'top' | 'up' | 'down' | 'remove'
+}
+
+export class ShowQueueCommand implements Command {
+    COMMAND = COMMANDS.SHOW_QUEUE
+
+    constructor(private storage: Storage, private player: Player,
+                private log: (msg: string) => void) {
+    }
+
+    async run() {
+        const queue = this.storage.getQueue()
+        const feedUrls = [...new Set(queue.map(item => item.feedUrl))]
+        // TODO show progress
+        await Promise.all(feedUrls.map(async feedUrl => {
+            try {
+                await this.storage.fetchPodcast(feedUrl)
+            } catch (e) {
+                this.log(`Unable to load feed ${feedUrl}: ${e}`)
+            }
+        }))
+
+        const items: QueuedEpisodeItem[] = queue.map((item, index) => {
+            const podcast = this.storage.getPodcast(item.feedUrl)
+            const episode = this.storage.getEpisode(item.feedUrl, item.guid)
+            if (!episode.local) {
+                return {
+                    label: `${index + 1}. Unknown episode`,
+                    detail: item.feedUrl,
+                    feedUrl: item.feedUrl,
+                    guid: item.guid,
+                    index: index
+                }
+            }
+            const downloaded = this.storage.isEpisodeDownloaded(item.feedUrl, item.guid) ? ' | $(database)' : ''
+            return {
+                label: `${index + 1}. ${episode.local.title}`,
+                description: episode.local.description,
+                detail: toHumanDuration(episode.local.duration, 'Unknown duration') +
+                    ' | ' + podcast.local!.title + downloaded,
+                feedUrl: item.feedUrl,
+                guid: item.guid,
+                index: index
+            }
+        })
+
+        const picker = window.createQuickPick<QueuedEpisodeItem>()
+        picker.ignoreFocusOut = true
+        picker.matchOnDescription = true
+        picker.matchOnDetail = true
+        picker.title = 'Queue'
+        picker.placeholder = items.length > 0 ? 'Pick an episode' : 'The queue is empty'
+        picker.items = items
+        picker.buttons = [QuickInputButtons.Back]
+
+        picker.onDidTriggerButton(async btn => {
+            if (btn == QuickInputButtons.Back) {
+                commands.executeCommand(COMMANDS.SHOW_MAIN_COMMANDS)
+            }
+            picker.dispose()
+        })
+
+        const pickerPromise = new Promise<QueuedEpisodeItem | undefined>((resolve, _) => {
+            picker.onDidAccept(() => {
+                resolve(picker.selectedItems[0])
+                picker.dispose()
+            })
+            picker.onDidHide(() => {
+                resolve(undefined)
+                picker.dispose()
+            })
+        })
+
+        picker.show()
+
+        const pick = await pickerPromise
+        if (!pick) {
+            return
+        }
+
+        const actions: ActionItem[] = [{
+            action: 'play',
+            label: 'Play now'
+        }, {
+            action: 'top',
+            label: 'Move to top'
+        }, {
+            action: 'up',
+            label: 'Move up'
+        }, {
+            action: 'down',
+            label: 'Move down'
+        }, {
+            action: 'remove',
+            label: 'Remove from queue'
+        }]
+        const actionPick = await window.showQuickPick(actions, {
+            placeHolder: pick.label
+        })
+        if (!actionPick) {
+            return
+        }
+        if (actionPick.action === 'play') {
+            await this.player.play(pick.feedUrl, pick.guid)
+            return
+        }
+        if (actionPick.action === 'remove') {
+            this.storage.removeFromQueue(pick.feedUrl, pick.guid)
+        } else {
+            const newIndex = {
+                'top': 0,
+                'up': pick.index - 1,
+                'down': pick.index + 1
+            }[actionPick.action]
+            this.storage.moveInQueue(pick.feedUrl, pick.guid, newIndex)
+        }
+        this.storage.saveMetadata({roaming: true})
+        commands.executeCommand(this.COMMAND)
+    }
+}
@@ -14,6 +14,10 @@ export const COMMANDS = {
     SHOW_PLAYER_COMMANDS: cmd('showPlayerCommands'),
     SHOW_STARRED_PODCASTS: cmd('showStarredPodcasts'),
     SHOW_HISTORY: cmd('showHistory'),
+    SHOW_QUEUE: cmd('showQueue'),
+    SHOW_NOW_PLAYING: cmd('showNowPlaying'),
+    SHOW_BOOKMARKS: cmd('showBookmarks'),
+    SHOW_DOWNLOADS: cmd('showDownloads'),
 
     // player commands (without UI)
     OPEN_WEBSITE: cmd('openWebsite'),
@@ -25,4 +29,21 @@ export const COMMANDS = {
     SKIP_FORWARD: cmd('skipForward'),
     SLOWDOWN: cmd('slowdown'),
     SPEEDUP: cmd('speedup'),
+    NEXT_CHAPTER: cmd('nextChapter'),
+    PREVIOUS_CHAPTER: cmd('previousChapter'),
+    CANCEL_SLEEP_TIMER: cmd('cancelSleepTimer'),
+    VOLUME_UP: cmd('volumeUp'),
+    VOLUME_DOWN: cmd('volumeDown'),
+    MUTE: cmd('mute'),
+    TOGGLE_TRIM_SILENCE: cmd('toggleTrimSilence'),
+    TOGGLE_VOICE_BOOST: cmd('toggleVoiceBoost'),
+
+    // player commands (with UI)
+    JUMP_TO_POSITION: cmd('jumpToPosition'),
+    SET_SPEED: cmd('setSpeed'),
+    JUMP_TO_CHAPTER: cmd('jumpToChapter'),
+    SET_SLEEP_TIMER: cmd('setSleepTimer'),
+    SET_VOLUME: cmd('setVolume'),
+    BOOKMARK_POSITION: cmd('bookmarkPosition'),
+    EXPORT_CLIP: cmd('exportClip'),
 }
\ No newline at end of file
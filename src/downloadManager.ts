@@ -0,0 +1,399 @@
+// Downloads episode enclosures, independent of the player.
+// Downloads are queued and run up to podcasts.download.concurrency at a time.
+// Incomplete data is kept in a partial file named after the URL, so that interrupted
+// downloads are resumed with an HTTP Range request, also after restarting VS Code.
+// Network errors, stalled connections and temporary server errors are retried with exponential backoff.
+
+import * as path from 'path'
+import * as fs from 'fs'
+import * as crypto from 'crypto'
+import { promisify } from 'util'
+import * as request from 'request'
+import { CancellationToken, EventEmitter } from 'vscode'
+import { DownloadConfiguration } from './types'
+import { mkdirp } from './3rdparty/util'
+
+const exists = promisify(fs.exists)
+const readdir = promisify(fs.readdir)
+const rename = promisify(fs.rename)
+const stat = promisify(fs.stat)
+const unlink = promisify(fs.unlink)
+
+const MAX_RETRIES = 5
+const RETRY_BASE_DELAY = 2 // seconds, doubled with each retry
+const RETRY_MAX_DELAY = 60 // seconds
+const PROGRESS_INTERVAL = 500 // ms
+const REQUEST_TIMEOUT = 30 * 1000 // ms, for connecting and between received data, stalled downloads are retried
+const PARTIAL_MAX_AGE = 30 * 24 * 60 * 60 * 1000 // ms, older partial files are deleted on startup
+
+export type DownloadStatus = 'queued' | 'downloading' | 'waitingForRetry'
+
+export interface DownloadRequest {
+    key: string // requests with the same key share one download
+    url: string
+    path: string // where the file is moved to once complete
+    title: string
+}
+
+export interface DownloadInfo {
+    key: string
+    url: string
+    title: string
+    status: DownloadStatus
+    received: number // bytes, including those of earlier attempts
+    total?: number // bytes, unknown if the server does not send a length
+    retries: number
+}
+
+interface Waiter {
+    resolve: (path: string) => void
+    reject: (e: Error) => void
+    onProgress?: (ratio: number) => void
+}
+
+interface Download {
+    info: DownloadInfo
+    path: string
+    partialPath: string
+    waiters: Set<Waiter>
+    abort?: () => void // stops the running attempt or the wait for the next one
+    stopped?: Error
+    deletePartial?: boolean
+    lastProgress: number
+}
+
+function isRetryable(e: any) {
+    if (typeof e.retryable === 'boolean') {
+        return e.retryable
+    }
+    // network errors like ECONNRESET, ETIMEDOUT or ENOTFOUND when offline
+    return typeof e.code === 'string'
+}
+
+function retryableError(msg: string, retryable: boolean) {
+    const e: any = new Error(msg)
+    e.retryable = retryable
+    return e as Error
+}
+
+export class DownloadManager {
+    private downloads = new Map<string, Download>() // in queue order
+    private activePartials = new Set<string>() // partial files being written to
+
+    private _onDidChange = new EventEmitter<void>()
+    onDidChange = this._onDidChange.event
+
+    constructor(private partialsPath: string, private cfg: DownloadConfiguration,
+                private log: (msg: string) => void) {
+        mkdirp(partialsPath).then(() => this.removeStalePartials()).catch(e => {
+            this.log(`Unable to clean up partial downloads: ${e.message}`)
+        })
+    }
+
+    updateConfiguration(cfg: DownloadConfiguration) {
+        this.cfg = cfg
+        this.startQueued()
+    }
+
+    getDownloads(): DownloadInfo[] {
+        return [...this.downloads.values()].map(download => ({...download.info}))
+    }
+
+    // Resolves to the path of the completed file, which is the path of the first request with the same key.
+    // Cancelling the token only rejects this request, the download continues while others wait for it.
+    download(req: DownloadRequest, onProgress?: (ratio: number) => void,
+             token?: CancellationToken): Promise<string> {
+        if (token && token.isCancellationRequested) {
+            return Promise.reject(new Error('Download cancelled'))
+        }
+        let download = this.downloads.get(req.key)
+        if (download) {
+            this.log(`Waiting for running download of ${req.url}`)
+        } else {
+            download = {
+                info: {
+                    key: req.key,
+                    url: req.url,
+                    title: req.title,
+                    status: 'queued',
+                    received: 0,
+                    retries: 0
+                },
+                path: req.path,
+                partialPath: this.getPartialPath(req.url),
+                waiters: new Set(),
+                lastProgress: 0
+            }
+            this.log(`Queueing download of ${req.url}`)
+            this.downloads.set(req.key, download)
+        }
+        const d = download
+        const promise = new Promise<string>((resolve, reject) => {
+            const waiter: Waiter = { resolve, reject, onProgress }
+            d.waiters.add(waiter)
+            if (token) {
+                const listener = token.onCancellationRequested(() => {
+                    listener.dispose()
+                    if (!d.waiters.delete(waiter)) {
+                        return
+                    }
+                    reject(new Error('Download cancelled'))
+                    if (d.waiters.size === 0) {
+                        // nobody waits for it anymore, the partial file is kept to resume later
+                        this.stop(d, new Error('Download cancelled'), false)
+                    }
+                })
+            }
+        })
+        this.startQueued()
+        this._onDidChange.fire()
+        return promise
+    }
+
+    // Cancels the download for everyone waiting for it and deletes the partial file.
+    cancel(key: string) {
+        const download = this.downloads.get(key)
+        if (download) {
+            this.log(`Cancelling download of ${download.info.url}`)
+            this.stop(download, new Error('Download cancelled'), true)
+        }
+    }
+
+    private stop(download: Download, error: Error, deletePartial: boolean) {
+        if (this.downloads.get(download.info.key) !== download) {
+            return
+        }
+        this.downloads.delete(download.info.key)
+        download.stopped = error
+        download.deletePartial = deletePartial
+        this.rejectWaiters(download, error)
+        if (download.abort) {
+            // the partial file is deleted once the running attempt has closed it
+            download.abort()
+        } else if (deletePartial) {
+            this.deletePartial(download.partialPath)
+        }
+        this.startQueued()
+        this._onDidChange.fire()
+    }
+
+    private startQueued() {
+        let running = [...this.downloads.values()].filter(download => download.info.status !== 'queued').length
+        for (const download of this.downloads.values()) {
+            if (running >= this.cfg.concurrency) {
+                break
+            }
+            // a stopped download with the same URL may still be closing the partial file
+            if (download.info.status === 'queued' && !this.activePartials.has(download.partialPath)) {
+                running++
+                this.run(download)
+            }
+        }
+    }
+
+    private async run(download: Download) {
+        download.info.status = 'downloading'
+        this.activePartials.add(download.partialPath)
+        this._onDidChange.fire()
+        try {
+            await this.downloadWithRetries(download)
+            await rename(download.partialPath, download.path)
+            if (download.stopped) {
+                // cancelled while moving, nobody would keep track of the file
+                await unlink(download.path)
+                throw download.stopped
+            }
+            this.log(`Downloaded ${download.info.url} to ${download.path}`)
+            for (const waiter of download.waiters) {
+                waiter.resolve(download.path)
+            }
+            download.waiters.clear()
+        } catch (e) {
+            if (download.stopped) {
+                this.log(`Stopped download of ${download.info.url}`)
+            } else {
+                this.log(`Download of ${download.info.url} failed: ${e.message}`)
+                this.rejectWaiters(download, e)
+            }
+        } finally {
+            this.activePartials.delete(download.partialPath)
+            if (download.deletePartial) {
+                this.deletePartial(download.partialPath)
+            }
+            if (this.downloads.get(download.info.key) === download) {
+                this.downloads.delete(download.info.key)
+            }
+            this.startQueued()
+            this._onDidChange.fire()
+        }
+    }
+
+    private async downloadWithRetries(download: Download) {
+        for (let retries = 0; ; retries++) {
+            download.info.retries = retries
+            try {
+                await this.downloadOnce(download)
+                return
+            } catch (e) {
+                if (download.stopped || !isRetryable(e) || retries >= MAX_RETRIES) {
+                    throw e
+                }
+                const delay = Math.min(RETRY_MAX_DELAY, RETRY_BASE_DELAY * Math.pow(2, retries))
+                this.log(`Download of ${download.info.url} failed: ${e.message}, retrying in ${delay} s`)
+                download.info.status = 'waitingForRetry'
+                this._onDidChange.fire()
+                await new Promise((resolve, reject) => {
+                    const timeoutId = setTimeout(resolve, delay * 1000)
+                    download.abort = () => {
+                        clearTimeout(timeoutId)
+                        reject(download.stopped)
+                    }
+                })
+                download.info.status = 'downloading'
+                this._onDidChange.fire()
+            }
+        }
+    }
+
+    // Continues from the end of the partial file if the server supports range requests.
+    private async downloadOnce(download: Download) {
+        const offset = await exists(download.partialPath) ? (await stat(download.partialPath)).size : 0
+        if (download.stopped) {
+            throw download.stopped
+        }
+        let restart = false
+        try {
+            await this.requestOnce(download, offset, () => restart = true)
+        } finally {
+            download.abort = undefined
+            if (restart) {
+                await unlink(download.partialPath)
+            }
+        }
+    }
+
+    // Calls restart() if the partial file cannot be resumed and needs to be deleted.
+    private requestOnce(download: Download, offset: number, restart: () => void) {
+        const url = download.info.url
+        return new Promise<void>((resolve, reject) => {
+            const headers: {[name: string]: string} = {
+                'User-Agent': 'Node'
+            }
+            if (offset > 0) {
+                this.log(`Resuming download of ${url} at ${offset} bytes`)
+                headers['Range'] = `bytes=${offset}-`
+            }
+            const req = request({ url, headers, timeout: REQUEST_TIMEOUT })
+            let file: fs.WriteStream | undefined
+            let error: Error | undefined
+
+            const fail = (e: Error) => {
+                if (error) {
+                    return
+                }
+                error = e
+                req.abort()
+                if (file) {
+                    // keeps what was received so far, rejected once the file is closed
+                    file.end()
+                } else {
+                    reject(e)
+                }
+            }
+            download.abort = () => fail(download.stopped!)
+
+            req.on('error', fail)
+            req.on('response', response => {
+                const statusCode = response.statusCode
+                if (statusCode === 416 && offset > 0) {
+                    // The file on the server has changed or the partial file is complete, but
+                    // an explicit length is needed to tell, so just start over.
+                    restart()
+                    fail(retryableError('Unable to resume download, starting over', true))
+                    return
+                }
+                if (statusCode !== 200 && statusCode !== 206) {
+                    const temporary = statusCode >= 500 || statusCode === 408 || statusCode === 429
+                    fail(retryableError(`HTTP status was ${statusCode}, expected 200.`, temporary))
+                    return
+                }
+                const append = statusCode === 206
+                if (offset > 0 && !append) {
+                    this.log(`Server does not support resuming ${url}, starting over`)
+                }
+                download.info.received = append ? offset : 0
+                const length = parseInt(response.headers['content-length'] || '', 10)
+                download.info.total = isNaN(length) ? undefined : download.info.received + length
+
+                file = fs.createWriteStream(download.partialPath, { flags: append ? 'a' : 'w' })
+                file.on('error', e => {
+                    // e.g. disk full, which retrying does not help with
+                    error = error || retryableError(e.message, false)
+                    req.abort()
+                })
+                file.on('close', () => {
+                    const { received, total } = download.info
+                    if (error) {
+                        reject(error)
+                    } else if (total !== undefined && received < total) {
+                        reject(retryableError(`Connection closed after ${received} of ${total} bytes`, true))
+                    } else {
+                        resolve()
+                    }
+                })
+                req.on('data', (chunk: Buffer) => {
+                    download.info.received += chunk.length
+                    this.reportProgress(download)
+                })
+                req.pipe(file)
+            })
+        })
+    }
+
+    private reportProgress(download: Download) {
+        const now = Date.now()
+        if (now - download.lastProgress < PROGRESS_INTERVAL) {
+            return
+        }
+        download.lastProgress = now
+        const { received, total } = download.info
+        if (total) {
+            for (const waiter of download.waiters) {
+                if (waiter.onProgress) {
+                    waiter.onProgress(received / total)
+                }
+            }
+        }
+        this._onDidChange.fire()
+    }
+
+    private rejectWaiters(download: Download, error: Error) {
+        for (const waiter of download.waiters) {
+            waiter.reject(error)
+        }
+        download.waiters.clear()
+    }
+
+    private getPartialPath(url: string) {
+        const hash = crypto.createHash('sha1').update(url).digest('hex')
+        return path.join(this.partialsPath, hash + '.part')
+    }
+
+    private deletePartial(partialPath: string) {
+        unlink(partialPath).catch(e => {
+            if (e.code !== 'ENOENT') {
+                this.log(`Unable to delete ${partialPath}: ${e.message}`)
+            }
+        })
+    }
+
+    private async removeStalePartials() {
+        for (const filename of await readdir(this.partialsPath)) {
+            const partialPath = path.join(this.partialsPath, filename)
+            if (Date.now() - (await stat(partialPath)).mtime.getTime() > PARTIAL_MAX_AGE) {
+                this.log(`Deleting stale partial download ${partialPath}`)
+                this.deletePartial(partialPath)
+            }
+        }
+    }
+}
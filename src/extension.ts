@@ -1,12 +1,15 @@
+import * as path from 'path'
 import { ExtensionContext, workspace, window, Disposable, commands } from 'vscode'
 
 import { NAMESPACE, COMMANDS } from './constants'
-import { ShellPlayer } from './shellPlayer'
+import { ShellBackend } from './backends/shellBackend'
+import { AudioFilter } from './backends/audioBackend'
+import { toShellPlayerProfile, ShellPlayerProfile } from './backends/shellProfiles'
 import { ListenNotes } from './listenNotes'
-import { Storage } from './storage'
+import { Storage, RoamingPathChangeMode } from './storage'
 import { Player } from './player'
-import { StatusBar } from './statusBar'
-import { Configuration, PlayerStatus } from './types'
+import { StatusBar, DownloadsStatusBar } from './statusBar'
+import { Configuration, PlayerStatus, PlayerProfileConfiguration, StreamingMode, ResumeOnStartupMode } from './types'
 import { SearchPodcastsCommand } from './commands/searchPodcasts';
 import { Command } from './commands/command';
 import { SearchEpisodesCommand } from './commands/searchEpisodes';
@@ -16,23 +19,48 @@ import { ShowStarredPodcastsCommand } from './commands/showStarredPodcasts';
 import { Resources } from './resources';
 import { AddByFeedUrlCommand } from './commands/addByFeedUrl';
 import { ShowHistoryCommand } from './commands/showHistory';
+import { ShowQueueCommand } from './commands/showQueue';
 import { ShowPodcastCommand } from './commands/showPodcast';
 import { PlayerCommand } from './commands/player';
 import { ShowPlayerCommandsCommand } from './commands/showPlayerCommands';
 import { FileWatcher } from './util';
+import { MprisService } from './mpris';
+import { NowPlayingPanel } from './nowPlaying';
+import { ShowNowPlayingCommand } from './commands/showNowPlaying';
+import { ShowBookmarksCommand } from './commands/showBookmarks';
+import { BookmarkPositionCommand } from './commands/bookmarkPosition';
+import { ExportClipCommand } from './commands/exportClip';
+import { DownloadManager } from './downloadManager';
+import { ShowDownloadsCommand } from './commands/showDownloads';
 import { ShowMainCommandsCommand } from './commands/showMainCommands';
+import { JumpToPositionCommand } from './commands/jumpToPosition';
+import { SetSpeedCommand } from './commands/setSpeed';
+import { JumpToChapterCommand } from './commands/jumpToChapter';
+import { SetSleepTimerCommand } from './commands/setSleepTimer';
+import { SetVolumeCommand } from './commands/setVolume';
 
 function getConfig(): Configuration {
     const playerCfg = workspace.getConfiguration(NAMESPACE + '.player')
     const storageCfg = workspace.getConfiguration(NAMESPACE + '.storage')
+    const downloadCfg = workspace.getConfiguration(NAMESPACE + '.download')
     const searchCfg = workspace.getConfiguration(NAMESPACE + '.search')
     return {
         player: {
-            path: playerCfg.get<string>('path')
+            path: playerCfg.get<string>('path'),
+            profiles: playerCfg.get<PlayerProfileConfiguration[]>('profiles')!,
+            streamingMode: playerCfg.get<StreamingMode>('streamingMode')!,
+            checkpointInterval: playerCfg.get<number>('checkpointInterval')!,
+            resumeOnStartup: playerCfg.get<ResumeOnStartupMode>('resumeOnStartup')!,
+            smartResumeMinPause: playerCfg.get<number>('smartResumeMinPause')!,
+            smartResumeMaxRewind: playerCfg.get<number>('smartResumeMaxRewind')!,
+            mpris: playerCfg.get<boolean>('mpris')!
         },
         storage: {
             roamingPath: storageCfg.get<string>('roamingPath'),
         },
+        download: {
+            concurrency: downloadCfg.get<number>('concurrency')!
+        },
         search: {
             genres: searchCfg.get<string[]>('genres')!,
             sortByDate: searchCfg.get<boolean>('sortByDate')!,
@@ -58,19 +86,46 @@ export async function activate(context: ExtensionContext) {
         }
     }
 
+    // Invalid profiles are skipped, so that a typo in one does not disable the others.
+    function toCustomProfiles(profiles: PlayerProfileConfiguration[]) {
+        const customProfiles: ShellPlayerProfile[] = []
+        for (const profile of profiles) {
+            try {
+                customProfiles.push(toShellPlayerProfile(profile))
+            } catch (e) {
+                log(`Ignoring invalid player profile: ${e.message}`)
+                window.showWarningMessage(`${e.message}. The profile is ignored until it is fixed in ` +
+                    `the ${NAMESPACE}.player.profiles setting.`)
+            }
+        }
+        return customProfiles
+    }
+
     const cfg = getConfig()
     const resources = new Resources(context)
 
-    const shellPlayer = new ShellPlayer({
+    const shellBackend = new ShellBackend({
         playerPath: cfg.player.path,
+        customProfiles: toCustomProfiles(cfg.player.profiles),
         supportDir: context.asAbsolutePath('extra')
     }, log)
 
-    const storage = new Storage(context.globalStoragePath, cfg.storage.roamingPath, log)
+    const downloads = new DownloadManager(path.join(context.globalStoragePath, 'downloads'), cfg.download, log)
+    const storage = new Storage(context.globalStoragePath, cfg.storage.roamingPath, downloads, log)
+    disposables.push(storage.onDidRestoreBackup(restored => {
+        const restoredFrom = restored.backupPath ? `was restored from the backup ${restored.backupPath}`
+            : `had no valid backup, starting with empty metadata`
+        window.showWarningMessage(`${restored.filePath} could not be read and ${restoredFrom}. ` +
+            `The unreadable file was moved to ${restored.corruptPath}.`)
+    }))
+    disposables.push(storage.onDidRefuseMetadata(refused => {
+        window.showWarningMessage(`${refused.message} Podcasts keeps running without it meanwhile.`)
+    }))
     await storage.loadMetadata()
 
     const statusBar = new StatusBar(disposables)
-    const player = new Player(shellPlayer, storage, log, disposables)
+    new DownloadsStatusBar(downloads, disposables)
+    const player = new Player(shellBackend, storage, cfg.player, log, disposables)
     const listenNotes = new ListenNotes(log)
 
     let lastStatus = PlayerStatus.STOPPED
@@ -94,12 +149,24 @@ export async function activate(context: ExtensionContext) {
     registerCommand(searchPodcastsCmd)
     registerCommand(searchEpisodesCmd)
     registerCommand(new ShowStarredPodcastsCommand(storage, resources, log))
-    registerCommand(new ShowHistoryCommand(storage, player, log))
+    registerCommand(new ShowHistoryCommand(storage, resources, player, log))
+    registerCommand(new ShowQueueCommand(storage, player, log))
+    registerCommand(new ShowBookmarksCommand(storage, resources, player, log))
+    registerCommand(new ShowDownloadsCommand(downloads, log))
     registerCommand(new ShowPodcastCommand(storage, resources, player, listenNotes, log))
     registerCommand(new AddByFeedUrlCommand(storage, log))
     registerCommand(new ImportFromOPMLCommand(storage, log))
     registerCommand(new ExportAsOPMLCommand(storage, log))
-    registerCommand(new ShowPlayerCommandsCommand(player, shellPlayer, log))
+    registerCommand(new ShowPlayerCommandsCommand(player, shellBackend, log))
+    registerCommand(new JumpToPositionCommand(player, shellBackend, log))
+    registerCommand(new SetSpeedCommand(player, shellBackend, log))
+    registerCommand(new JumpToChapterCommand(player, log))
+    registerCommand(new SetSleepTimerCommand(player, log))
+    registerCommand(new SetVolumeCommand(player, shellBackend, log))
+    registerCommand(new BookmarkPositionCommand(player, shellBackend, storage, log))
+    registerCommand(new ExportClipCommand(player, shellBackend, storage, log))
+    const nowPlayingPanel = new NowPlayingPanel(player, shellBackend, storage, resources, log, disposables)
+    registerCommand(new ShowNowPlayingCommand(nowPlayingPanel, log))
 
     function registerPlayerCommand(cmd: string, fn: (player: Player) => Promise<void>) {
         registerCommand(new PlayerCommand(cmd, player, fn, log))
@@ -114,6 +181,23 @@ export async function activate(context: ExtensionContext) {
     registerPlayerCommand(COMMANDS.SKIP_FORWARD, async p => p.skipForward())
     registerPlayerCommand(COMMANDS.SLOWDOWN, async p => p.slowdown())
     registerPlayerCommand(COMMANDS.SPEEDUP, async p => p.speedup())
+    registerPlayerCommand(COMMANDS.NEXT_CHAPTER, async p => p.nextChapter())
+    registerPlayerCommand(COMMANDS.PREVIOUS_CHAPTER, async p => p.previousChapter())
+    registerPlayerCommand(COMMANDS.CANCEL_SLEEP_TIMER, async p => p.cancelSleepTimer())
+    registerPlayerCommand(COMMANDS.VOLUME_UP, async p => p.volumeUp())
+    registerPlayerCommand(COMMANDS.VOLUME_DOWN, async p => p.volumeDown())
+    registerPlayerCommand(COMMANDS.MUTE, async p => p.mute())
+    registerPlayerCommand(COMMANDS.TOGGLE_TRIM_SILENCE, async p => await p.toggleAudioFilter(AudioFilter.TRIM_SILENCE))
+    registerPlayerCommand(COMMANDS.TOGGLE_VOICE_BOOST, async p => await p.toggleAudioFilter(AudioFilter.VOICE_BOOST))
+
+    // media keys and desktop widgets on Linux
+    if (process.platform === 'linux' && cfg.player.mpris) {
+        const mpris = new MprisService(player, shellBackend, storage, log, disposables)
+        mpris.start().catch(e => log(`MPRIS: Unable to connect to the session bus: ${e.message}`))
+    }
+
+    // continue the episode that was playing when VS Code was closed
+    player.resumeInterruptedEpisode()
 
     // watch for file changes of roaming metadata, e.g. sync via Dropbox
     const roamingPathWatcher = new FileWatcher(storage.getRoamingPath(), () => {
@@ -124,21 +208,56 @@ export async function activate(context: ExtensionContext) {
             return
         }
         log('External update to roaming metadata detected')
-        storage.loadMetadata({roaming: true})
+        storage.loadMetadata({roaming: true}).catch(e => {
+            log(`Unable to load roaming metadata: ${e.message}`)
+            window.showErrorMessage(e.message)
+        })
     })
     disposables.push(roamingPathWatcher.disposable)
 
+    async function changeRoamingPath(roamingPath: string | undefined) {
+        const oldPath = storage.getRoamingPath()
+        const newPath = storage.resolveRoamingMetadataPath(roamingPath)
+        if (newPath === oldPath) {
+            return
+        }
+        let mode: RoamingPathChangeMode = 'copy'
+        if (storage.hasRoamingMetadata(roamingPath)) {
+            const copy = 'Copy', merge = 'Merge', adopt = 'Adopt'
+            const pick = await window.showInformationMessage(
+                `The new roaming folder already contains podcast metadata. ` +
+                `Copy the current metadata there (overwriting it), merge both, or adopt the existing metadata?`,
+                { modal: true }, copy, merge, adopt)
+            if (!pick) {
+                window.showWarningMessage(`Roaming metadata stays at ${oldPath} until VS Code is restarted`)
+                return
+            }
+            mode = pick === copy ? 'copy' : pick === merge ? 'merge' : 'adopt'
+        }
+        try {
+            await storage.setRoamingPath(roamingPath, mode)
+        } catch (e) {
+            log(`Unable to change roaming metadata location: ${e.message}`)
+            window.showErrorMessage(`Unable to use ${newPath}: ${e.message}. Roaming metadata stays at ${oldPath}.`)
+            return
+        }
+        roamingPathWatcher.update(storage.getRoamingPath())
+    }
+
     disposables.push(workspace.onDidChangeConfiguration(async e => {
         log('Config changed, reloading')
         const affected = (section: string) => e.affectsConfiguration(`${NAMESPACE}.${section}`)
         const cfg = getConfig()
         if (affected('player')) {
-            shellPlayer.setPlayerPath(cfg.player.path)
+            shellBackend.setCustomProfiles(toCustomProfiles(cfg.player.profiles))
+            shellBackend.setPlayerPath(cfg.player.path)
+            player.updatePlayerConfiguration(cfg.player)
         }
         if (affected('storage')) {
-            storage.setRoamingPath(cfg.storage.roamingPath)
-            storage.loadMetadata({roaming: true})
-            roamingPathWatcher.update(storage.getRoamingPath())
+            await changeRoamingPath(cfg.storage.roamingPath)
+        }
+        if (affected('download')) {
+            downloads.updateConfiguration(cfg.download)
         }
         if (affected('search')) {
             searchPodcastsCmd.updateSearchConfiguration(cfg.search)
@@ -0,0 +1,57 @@
+// Schema migrations of local.json and roaming.json, applied when loading.
+// Files written before versioning was introduced count as version 0.
+//
+// To change the schema, bump the version and append a migration from the
+// previous version. Migrations must never be changed once released, as
+// roaming files of any older version may still be synced from other machines.
+
+type Migration = (data: any) => void // migrates in-place to the next version
+
+// LOCAL_MIGRATIONS[i] migrates from version i to i + 1.
+const LOCAL_MIGRATIONS: Migration[] = [
+    // 0 -> 1: version field added
+    data => {},
+    // 1 -> 2: show notes are no longer stored, as they made the file very large
+    data => {
+        for (const podcast of Object.values<any>(data.podcasts)) {
+            for (const episode of Object.values<any>(podcast.episodes)) {
+                delete episode.showNotes
+            }
+        }
+    }
+]
+
+// ROAMING_MIGRATIONS[i] migrates from version i to i + 1.
+const ROAMING_MIGRATIONS: Migration[] = [
+    // 0 -> 1: files written before the queue was introduced lack it
+    data => {
+        if (!data.queue) {
+            data.queue = []
+        }
+    }
+]
+
+export const LOCAL_METADATA_VERSION = LOCAL_MIGRATIONS.length
+export const ROAMING_METADATA_VERSION = ROAMING_MIGRATIONS.length
+
+function migrate(data: any, migrations: Migration[], filename: string) {
+    const version: number = typeof data.version === 'number' ? data.version : 0
+    if (version > migrations.length) {
+        throw new Error(`${filename} was written by a newer version of the Podcasts extension ` +
+            `(schema version ${version}, supported up to ${migrations.length}). ` +
+            `Please update the extension, the file is left untouched until then.`)
+    }
+    for (let i = version; i < migrations.length; i++) {
+        migrations[i](data)
+        data.version = i + 1
+    }
+    return data
+}
+
+export function migrateLocalMetadata(data: any, filename: string) {
+    return migrate(data, LOCAL_MIGRATIONS, filename)
+}
+
+export function migrateRoamingMetadata(data: any, filename: string) {
+    return migrate(data, ROAMING_MIGRATIONS, filename)
+}
@@ -0,0 +1,391 @@
+// Publishes the player on the D-Bus session bus via MPRIS, so that media keys
+// and desktop widgets on Linux can control it.
+// See https://specifications.freedesktop.org/mpris-spec/latest/
+
+import * as dbus from 'dbus-next'
+import { pid } from 'process'
+import { Disposable } from 'vscode'
+import { Player } from './player'
+import { Storage } from './storage'
+import { AudioBackend, AudioBackendCommand, supportsCommand } from './backends/audioBackend'
+import { PlayerStatus, PlayerState } from './types'
+
+const { Interface, ACCESS_READ, ACCESS_READWRITE } = dbus.interface
+
+const OBJECT_PATH = '/org/mpris/MediaPlayer2'
+const NO_TRACK = '/org/mpris/MediaPlayer2/TrackList/NoTrack'
+const MICROSECONDS = 1000 * 1000
+const SEEK_THRESHOLD = 2 // s, position jumps larger than this are signalled as seeks
+
+// dbus-next connects to abstract sockets ("unix:abstract=...", the session bus address on some
+// distributions) only via its optional native usocket module, which is not shipped with the extension.
+function supportsBusAddress(busAddress: string) {
+    if (!busAddress.split(';').every(address => /^unix:(?:.*,)?abstract=/.test(address))) {
+        return true
+    }
+    try {
+        require('usocket')
+        return true
+    } catch (e) {
+        return false
+    }
+}
+
+// org.mpris.MediaPlayer2
+class MediaPlayer2Interface extends Interface {
+    Identity = 'VS Code Podcasts'
+    CanQuit = false
+    CanRaise = false
+    HasTrackList = false
+    SupportedUriSchemes: string[] = []
+    SupportedMimeTypes: string[] = []
+
+    Raise() {
+    }
+
+    Quit() {
+    }
+}
+
+// org.mpris.MediaPlayer2.Player
+class MediaPlayer2PlayerInterface extends Interface {
+    private state: PlayerState = { status: PlayerStatus.STOPPED }
+    private trackId = NO_TRACK
+    private trackCount = 0
+    private metadata: {[key: string]: dbus.Variant} = {}
+    private lastPosition: { elapsed: number, timestamp: number } | undefined
+
+    constructor(private player: Player, private backend: AudioBackend, private storage: Storage,
+                private log: (msg: string) => void) {
+        super('org.mpris.MediaPlayer2.Player')
+    }
+
+    update(state: PlayerState) {
+        const changed: {[key: string]: any} = {}
+        const oldState = this.state
+        this.state = state
+        if (toPlaybackStatus(oldState.status) !== toPlaybackStatus(state.status)) {
+            changed.PlaybackStatus = this.PlaybackStatus
+            changed.CanPlay = this.CanPlay
+            changed.CanPause = this.CanPause
+            changed.CanSeek = this.CanSeek
+        }
+        if (state.status === PlayerStatus.OPENING || state.status === PlayerStatus.DOWNLOADING) {
+            if (this.updateMetadata()) {
+                changed.Metadata = this.Metadata
+            }
+        } else if (state.duration && oldState.duration !== state.duration) {
+            // streamed episodes report their duration late
+            this.updateMetadata()
+            changed.Metadata = this.Metadata
+        }
+        if (state.speed !== undefined && state.speed !== oldState.speed) {
+            changed.Rate = this.Rate
+        }
+        if (state.volume !== undefined && state.volume !== oldState.volume) {
+            changed.Volume = this.Volume
+        }
+        if (Object.keys(changed).length > 0) {
+            Interface.emitPropertiesChanged(this, changed, [])
+        }
+        this.detectSeek(oldState, state)
+    }
+
+    // Signals seeks once the player reports the new position, whether they came via MPRIS or not.
+    private detectSeek(oldState: PlayerState, state: PlayerState) {
+        if (!this.isActive() || state.elapsed === undefined) {
+            this.lastPosition = undefined
+            return
+        }
+        const now = Date.now()
+        const last = this.lastPosition
+        this.lastPosition = { elapsed: state.elapsed, timestamp: now }
+        if (!last) {
+            return
+        }
+        let expected = last.elapsed
+        if (oldState.status === PlayerStatus.PLAYING) {
+            expected += (now - last.timestamp) / 1000 * (oldState.speed || 1.0)
+        }
+        if (Math.abs(state.elapsed - expected) > SEEK_THRESHOLD) {
+            this.Seeked(Math.round(state.elapsed * MICROSECONDS))
+        }
+    }
+
+    // Returns whether a different episode is playing now.
+    private updateMetadata() {
+        const feedUrl = this.player.getFeedUrl()
+        const guid = this.player.getGuid()
+        if (!feedUrl || !guid) {
+            return false
+        }
+        const episode = this.storage.getEpisode(feedUrl, guid).local
+        const podcast = this.storage.getPodcast(feedUrl).local
+        if (!episode || !podcast) {
+            return false
+        }
+        const metadataTitle = this.metadata['xesam:title']
+        const isNewTrack = !metadataTitle || metadataTitle.value !== episode.title
+        if (isNewTrack) {
+            this.trackCount++
+            // object paths may only contain [A-Za-z0-9_]
+            this.trackId = `/org/vscode_podcasts/episode/${this.trackCount}`
+        }
+        const metadata: {[key: string]: dbus.Variant} = {
+            'mpris:trackid': new dbus.Variant('o', this.trackId),
+            'xesam:title': new dbus.Variant('s', episode.title),
+            'xesam:album': new dbus.Variant('s', podcast.title),
+            'xesam:artist': new dbus.Variant('as', [podcast.title])
+        }
+        const duration = this.state.duration || episode.duration
+        if (duration) {
+            metadata['mpris:length'] = new dbus.Variant('x', Math.round(duration * MICROSECONDS))
+        }
+        if (episode.thumbnailUrl) {
+            metadata['mpris:artUrl'] = new dbus.Variant('s', episode.thumbnailUrl)
+        }
+        this.metadata = metadata
+        return isNewTrack
+    }
+
+    get PlaybackStatus() {
+        return toPlaybackStatus(this.state.status)
+    }
+
+    get Rate() {
+        return this.state.speed || 1.0
+    }
+
+    set Rate(rate: number) {
+        if (rate > 0 && supportsCommand(this.backend, AudioBackendCommand.SET_SPEED)) {
+            this.player.setSpeed(rate)
+        }
+    }
+
+    MinimumRate = 0.5
+    MaximumRate = 3.0
+
+    get Metadata() {
+        return this.state.status === PlayerStatus.STOPPED ? {} : this.metadata
+    }
+
+    get Volume() {
+        return this.backend.volume / 100
+    }
+
+    set Volume(volume: number) {
+        if (supportsCommand(this.backend, AudioBackendCommand.SET_VOLUME)) {
+            this.player.setVolume(Math.round(Math.max(0, volume) * 100))
+        }
+    }
+
+    // Not signalled, clients query it on demand.
+    get Position() {
+        return Math.round(this.backend.position * MICROSECONDS)
+    }
+
+    get CanGoNext() {
+        return this.isActive()
+    }
+
+    get CanGoPrevious() {
+        return this.isActive()
+    }
+
+    get CanPlay() {
+        return this.state.status === PlayerStatus.PAUSED
+    }
+
+    get CanPause() {
+        return this.state.status === PlayerStatus.PLAYING && supportsCommand(this.backend, AudioBackendCommand.PAUSE)
+    }
+
+    get CanSeek() {
+        return this.isActive() && supportsCommand(this.backend, AudioBackendCommand.SEEK)
+    }
+
+    CanControl = true
+
+    // Next and Previous move between chapters if the episode has any, otherwise they skip.
+    Next() {
+        this.log('MPRIS: Next')
+        if (this.player.getChapters().length > 0) {
+            this.player.nextChapter()
+        } else if (supportsCommand(this.backend, AudioBackendCommand.SKIP_FORWARD)) {
+            this.player.skipForward()
+        }
+    }
+
+    Previous() {
+        this.log('MPRIS: Previous')
+        if (this.player.getChapters().length > 0) {
+            this.player.previousChapter()
+        } else if (supportsCommand(this.backend, AudioBackendCommand.SKIP_BACKWARD)) {
+            this.player.skipBackward()
+        }
+    }
+
+    Pause() {
+        if (this.state.status === PlayerStatus.PLAYING) {
+            this.PlayPause()
+        }
+    }
+
+    Play() {
+        if (this.state.status === PlayerStatus.PAUSED) {
+            this.PlayPause()
+        }
+    }
+
+    PlayPause() {
+        this.log('MPRIS: PlayPause')
+        if (this.isActive() && supportsCommand(this.backend, AudioBackendCommand.PAUSE)) {
+            this.player.pause()
+        }
+    }
+
+    Stop() {
+        this.log('MPRIS: Stop')
+        if (this.isActive()) {
+            this.player.stop()
+        }
+    }
+
+    Seek(offset: any) {
+        // int64 arrives as BigInt
+        const position = this.backend.position + Number(offset) / MICROSECONDS
+        this.seek(Math.max(0, position))
+    }
+
+    SetPosition(trackId: string, position: any) {
+        // ignore stale requests, see the MPRIS spec
+        if (trackId !== this.trackId) {
+            return
+        }
+        this.seek(Number(position) / MICROSECONDS)
+    }
+
+    OpenUri(uri: string) {
+    }
+
+    Seeked(position: number) {
+        return position
+    }
+
+    private seek(position: number) {
+        if (!this.CanSeek) {
+            return
+        }
+        if (this.backend.duration && position > this.backend.duration) {
+            return
+        }
+        this.log(`MPRIS: Seek to ${Math.round(position)}s`)
+        // signalled by detectSeek() once the player has moved
+        this.player.seek(position)
+    }
+
+    private isActive() {
+        return this.state.status === PlayerStatus.PLAYING || this.state.status === PlayerStatus.PAUSED
+    }
+}
+
+// dbus-next's decorators don't work with TypeScript's, so members are configured here.
+MediaPlayer2Interface.configureMembers({
+    properties: {
+        Identity: { signature: 's', access: ACCESS_READ },
+        CanQuit: { signature: 'b', access: ACCESS_READ },
+        CanRaise: { signature: 'b', access: ACCESS_READ },
+        HasTrackList: { signature: 'b', access: ACCESS_READ },
+        SupportedUriSchemes: { signature: 'as', access: ACCESS_READ },
+        SupportedMimeTypes: { signature: 'as', access: ACCESS_READ }
+    },
+    methods: {
+        Raise: {},
+        Quit: {}
+    }
+})
+
+MediaPlayer2PlayerInterface.configureMembers({
+    properties: {
+        PlaybackStatus: { signature: 's', access: ACCESS_READ },
+        Rate: { signature: 'd', access: ACCESS_READWRITE },
+        MinimumRate: { signature: 'd', access: ACCESS_READ },
+        MaximumRate: { signature: 'd', access: ACCESS_READ },
+        Metadata: { signature: 'a{sv}', access: ACCESS_READ },
+        Volume: { signature: 'd', access: ACCESS_READWRITE },
+        Position: { signature: 'x', access: ACCESS_READ },
+        CanGoNext: { signature: 'b', access: ACCESS_READ },
+        CanGoPrevious: { signature: 'b', access: ACCESS_READ },
+        CanPlay: { signature: 'b', access: ACCESS_READ },
+        CanPause: { signature: 'b', access: ACCESS_READ },
+        CanSeek: { signature: 'b', access: ACCESS_READ },
+        CanControl: { signature: 'b', access: ACCESS_READ }
+    },
+    methods: {
+        Next: {},
+        Previous: {},
+        Pause: {},
+        Play: {},
+        PlayPause: {},
+        Stop: {},
+        Seek: { inSignature: 'x' },
+        SetPosition: { inSignature: 'ox' },
+        OpenUri: { inSignature: 's' }
+    },
+    signals: {
+        Seeked: { signature: 'x' }
+    }
+})
+
+function toPlaybackStatus(status: PlayerStatus) {
+    switch (status) {
+        case PlayerStatus.PLAYING:
+            return 'Playing'
+        case PlayerStatus.PAUSED:
+            return 'Paused'
+        default:
+            return 'Stopped'
+    }
+}
+
+export class MprisService {
+    private bus: dbus.MessageBus | undefined
+    private playerInterface: MediaPlayer2PlayerInterface
+
+    constructor(private player: Player, private backend: AudioBackend, private storage: Storage,
+                private log: (msg: string) => void, private disposables: Disposable[]) {
+        this.playerInterface = new MediaPlayer2PlayerInterface(player, backend, storage, log)
+        disposables.push(player.onStateChange(state => this.playerInterface.update(state)))
+        disposables.push({ dispose: () => this.stop() })
+    }
+
+    // busAddress defaults to DBUS_SESSION_BUS_ADDRESS, a private bus can be started with
+    // "dbus-daemon --session --print-address --nofork" for testing.
+    async start(busAddress = process.env.DBUS_SESSION_BUS_ADDRESS) {
+        if (busAddress && !supportsBusAddress(busAddress)) {
+            throw new Error(`The session bus address ${busAddress} uses an abstract socket, ` +
+                'which is not supported yet')
+        }
+        const bus = dbus.sessionBus(busAddress ? { busAddress } : undefined)
+        bus.on('error', e => this.log(`MPRIS: D-Bus error: ${e.message}`))
+        bus.export(OBJECT_PATH, new MediaPlayer2Interface('org.mpris.MediaPlayer2'))
+        bus.export(OBJECT_PATH, this.playerInterface)
+        const name = `org.mpris.MediaPlayer2.vscode_podcasts.instance${pid}`
+        try {
+            await bus.requestName(name, dbus.NameFlag.DO_NOT_QUEUE)
+        } catch (e) {
+            bus.disconnect()
+            throw e
+        }
+        this.bus = bus
+        this.log(`MPRIS: Registered as ${name}`)
+    }
+
+    stop() {
+        if (!this.bus) {
+            return
+        }
+        this.bus.disconnect()
+        this.bus = undefined
+    }
+}
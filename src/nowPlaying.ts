@@ -0,0 +1,242 @@
+// Webview panel showing the playing episode with a seek bar, speed selector,
+// chapters and show notes. The webview script lives in resources/nowPlaying/.
+
+import { window, ViewColumn, WebviewPanel, Disposable, Uri } from 'vscode'
+import { Player } from './player'
+import { Storage } from './storage'
+import { Resources } from './resources'
+import { AudioBackend, AudioBackendCommand, supportsCommand } from './backends/audioBackend'
+import { PlayerStatus, PlayerState } from './types'
+import { SPEEDS } from './commands/setSpeed'
+
+const VIEW_TYPE = 'podcasts.nowPlaying'
+
+interface NowPlayingEpisode {
+    title: string
+    podcastTitle: string
+    thumbnailUrl?: string
+    chapters: { start: number, title: string }[]
+}
+
+interface NowPlayingCapabilities {
+    pause: boolean
+    skip: boolean
+    seek: boolean
+    speed: boolean
+}
+
+// Messages posted to the webview.
+type OutgoingMessage =
+    { type: 'episode', episode?: NowPlayingEpisode, capabilities: NowPlayingCapabilities, speeds: number[] } |
+    { type: 'showNotes', showNotes?: string } | // follows 'episode', as they may have to be fetched
+    { type: 'state', status: string, elapsed?: number, duration?: number, speed?: number, chapterIndex: number }
+
+// Messages posted by the webview.
+type IncomingMessage =
+    { command: 'ready' } |
+    { command: 'pause' } |
+    { command: 'skipBackward' } |
+    { command: 'skipForward' } |
+    { command: 'seek', position: number } |
+    { command: 'setSpeed', speed: number } |
+    { command: 'jumpToChapter', index: number }
+
+export class NowPlayingPanel {
+    private panel: WebviewPanel | undefined
+    private state: PlayerState = { status: PlayerStatus.STOPPED }
+    private episodeKey: string | undefined // changes with the episode and once chapters are loaded
+
+    constructor(private player: Player, private backend: AudioBackend, private storage: Storage,
+                private resources: Resources, private log: (msg: string) => void,
+                private disposables: Disposable[]) {
+        disposables.push(player.onStateChange(state => this.update(state)))
+        disposables.push({ dispose: () => this.panel && this.panel.dispose() })
+    }
+
+    show() {
+        if (this.panel) {
+            this.panel.reveal()
+            return
+        }
+        const mediaPath = this.resources.getPath('nowPlaying')
+        const panel = window.createWebviewPanel(VIEW_TYPE, 'Now Playing', ViewColumn.Beside, {
+            enableScripts: true,
+            localResourceRoots: [mediaPath]
+        })
+        panel.iconPath = this.resources.getPath('logo.png')
+        panel.webview.html = this.getHtml(mediaPath.with({ scheme: 'vscode-resource' }))
+        panel.webview.onDidReceiveMessage((msg: IncomingMessage) => {
+            try {
+                this.handleMessage(msg)
+            } catch (e) {
+                this.log(`Now Playing: ${e.message}`)
+                window.showErrorMessage(e.message)
+            }
+        })
+        panel.onDidDispose(() => {
+            this.panel = undefined
+        })
+        this.panel = panel
+    }
+
+    private update(state: PlayerState) {
+        this.state = state
+        if (!this.panel) {
+            return
+        }
+        const key = this.getEpisodeKey()
+        if (key !== this.episodeKey) {
+            this.postEpisode()
+        }
+        this.postState()
+    }
+
+    private handleMessage(msg: IncomingMessage) {
+        switch (msg.command) {
+            case 'ready':
+                // (re-)sent whenever the webview is loaded, e.g. after being hidden
+                this.postEpisode()
+                this.postState()
+                break
+            case 'pause':
+                this.player.pause()
+                break
+            case 'skipBackward':
+                this.player.skipBackward()
+                break
+            case 'skipForward':
+                this.player.skipForward()
+                break
+            case 'seek':
+                this.player.seek(msg.position)
+                break
+            case 'setSpeed':
+                this.player.setSpeed(msg.speed)
+                break
+            case 'jumpToChapter':
+                this.player.jumpToChapter(msg.index)
+                break
+        }
+    }
+
+    private getEpisodeKey() {
+        const feedUrl = this.player.getFeedUrl()
+        if (this.state.status === PlayerStatus.STOPPED || !feedUrl) {
+            return undefined
+        }
+        return `${feedUrl}|${this.player.getGuid()}|${this.player.getChapters().length}`
+    }
+
+    private postEpisode() {
+        this.episodeKey = this.getEpisodeKey()
+        this.post({
+            type: 'episode',
+            episode: this.episodeKey ? this.getEpisode() : undefined,
+            capabilities: {
+                pause: supportsCommand(this.backend, AudioBackendCommand.PAUSE),
+                skip: supportsCommand(this.backend, AudioBackendCommand.SKIP_FORWARD),
+                seek: this.player.canSeek(),
+                speed: supportsCommand(this.backend, AudioBackendCommand.SET_SPEED)
+            },
+            speeds: SPEEDS
+        })
+        if (this.episodeKey) {
+            this.postShowNotes(this.episodeKey)
+        }
+    }
+
+    private async postShowNotes(episodeKey: string) {
+        let showNotes: string | undefined
+        try {
+            showNotes = await this.storage.fetchEpisodeShowNotes(this.player.getFeedUrl()!, this.player.getGuid()!)
+        } catch (e) {
+            this.log(`Now Playing: Unable to load show notes: ${e.message}`)
+        }
+        if (this.episodeKey === episodeKey) {
+            this.post({ type: 'showNotes', showNotes })
+        }
+    }
+
+    private getEpisode(): NowPlayingEpisode {
+        const feedUrl = this.player.getFeedUrl()!
+        const podcast = this.storage.getPodcast(feedUrl).local!
+        const episode = this.storage.getEpisode(feedUrl, this.player.getGuid()!).local!
+        return {
+            title: episode.title,
+            podcastTitle: podcast.title,
+            thumbnailUrl: episode.thumbnailUrl || podcast.thumbnailUrl,
+            chapters: this.player.getChapters().map(chapter => ({ start: chapter.start, title: chapter.title }))
+        }
+    }
+
+    private postState() {
+        this.post({
+            type: 'state',
+            status: PlayerStatus[this.state.status],
+            elapsed: this.state.elapsed,
+            duration: this.state.duration,
+            speed: this.state.speed,
+            chapterIndex: this.player.getCurrentChapterIndex()
+        })
+    }
+
+    private post(msg: OutgoingMessage) {
+        if (this.panel) {
+            this.panel.webview.postMessage(msg)
+        }
+    }
+
+    private getHtml(mediaUri: Uri) {
+        const nonce = Math.random().toString(36).substring(2, 15)
+        const media = (name: string) => mediaUri.with({ path: mediaUri.path + '/' + name }).toString()
+        // Show notes come from feeds and are shown as-is, only our own script may run.
+        const csp = [
+            `default-src 'none'`,
+            `img-src vscode-resource: https: http: data:`,
+            `style-src vscode-resource:`,
+            `script-src 'nonce-${nonce}'`
+        ].join('; ')
+        return `<!DOCTYPE html>
+<html lang="en">
+<head>
+    <meta charset="UTF-8">
+    <meta http-equiv="Content-Security-Policy" content="${csp}">
+    <meta name="viewport" content="width=device-width, initial-scale=1.0">
+    <link rel="stylesheet" href="${media('nowPlaying.css')}">
+    <title>Now Playing</title>
+</head>
+<body>
+    <div id="nothing-playing">Nothing is playing.</div>
+    <div id="player" hidden>
+        <header>
+            <img id="cover" alt="">
+            <div>
+                <h1 id="title"></h1>
+                <h2 id="podcast-title"></h2>
+            </div>
+        </header>
+        <input id="seek-bar" type="range" min="0" max="0" step="1" value="0">
+        <div id="times">
+            <span id="elapsed"></span>
+            <span id="remaining"></span>
+        </div>
+        <div id="controls">
+            <button id="skip-backward" title="Skip backward">&#x23EA;</button>
+            <button id="pause" title="Pause/Resume"></button>
+            <button id="skip-forward" title="Skip forward">&#x23E9;</button>
+            <select id="speed" title="Speed"></select>
+        </div>
+        <section id="chapters-section" hidden>
+            <h3>Chapters</h3>
+            <ol id="chapters"></ol>
+        </section>
+        <section>
+            <h3>Show notes</h3>
+            <div id="show-notes"></div>
+        </section>
+    </div>
+    <script nonce="${nonce}" src="${media('nowPlaying.js')}"></script>
+</body>
+</html>`
+    }
+}
@@ -1,12 +1,44 @@
-import { ShellPlayer, ShellPlayerCommand, ShellPlayerStatus } from "./shellPlayer";
-import { Storage } from "./storage";
-import { window, Disposable, CancellationTokenSource, env, Uri, EventEmitter } from "vscode";
-import { PlayerStatus, PlayerState } from "./types";
+import { AudioBackend, AudioBackendCommand, AudioBackendStatus, AudioFilter, supportsCommand,
+         supportsFilter, getCommandInfo } from "./backends/audioBackend";
+import { Storage, ChapterMetadata, RoamingPodcastPreferences } from "./storage";
+import { window, Disposable, CancellationTokenSource, CancellationToken, env, Uri, EventEmitter } from "vscode";
+import { PlayerStatus, PlayerState, PlayerConfiguration, SleepTimerMode } from "./types";
+import { getChapterIndex } from "./chapters";
+import { toHHMMSS, toHumanDuration } from "./util";
 
 const StatusMapping = {
-    [ShellPlayerStatus.PLAYING]: PlayerStatus.PLAYING,
-    [ShellPlayerStatus.PAUSED]: PlayerStatus.PAUSED,
-    [ShellPlayerStatus.STOPPED]: PlayerStatus.STOPPED
+    [AudioBackendStatus.PLAYING]: PlayerStatus.PLAYING,
+    [AudioBackendStatus.PAUSED]: PlayerStatus.PAUSED,
+    [AudioBackendStatus.STOPPED]: PlayerStatus.STOPPED
+}
+
+interface SleepTimer {
+    mode: SleepTimerMode
+    stopAt?: number // timestamp, for 'minutes'
+    timeoutId?: NodeJS.Timeout
+    refreshIntervalId?: NodeJS.Timeout // for 'minutes', as the state is not updated while paused
+    chapterIndex?: number // for 'endOfChapter'
+}
+
+// Seconds to rewind after a pause, growing with its length (5 min: 9 s, 1 h: 30 s).
+function getSmartResumeRewind(pause: number, cfg: PlayerConfiguration) {
+    if (cfg.smartResumeMaxRewind <= 0 || pause < cfg.smartResumeMinPause) {
+        return 0
+    }
+    return Math.min(cfg.smartResumeMaxRewind, Math.round(Math.sqrt(pause) / 2))
+}
+
+const FILTER_PREFERENCES: {[filter in AudioFilter]: 'trimSilence' | 'voiceBoost'} = {
+    [AudioFilter.TRIM_SILENCE]: 'trimSilence',
+    [AudioFilter.VOICE_BOOST]: 'voiceBoost'
+}
+
+// Measures the time saved by silence trimming from the difference between
+// the playback position and the wall-clock time.
+interface TrimSilenceStats {
+    saved: number // s
+    lastTimestamp?: number // ms, undefined while not playing
+    lastPosition: number // s
 }
 
 export class Player {
@@ -15,8 +47,23 @@ export class Player {
 
     private currentEpisodeFeedUrl?: string
     private currentEpisodeGuid?: string
+    private chapters: ChapterMetadata[] = []
+
+    private backendQueryIntervalId: NodeJS.Timeout
+    private lastCheckpoint = 0 // timestamp
+    private pausedAt?: number // timestamp
+    private trimSilenceStats?: TrimSilenceStats
+
+    // Set when playback is stopped by us and not by reaching the end of the episode.
+    private stopRequested = false
+
+    // Set when VS Code is closing, to keep remembering the playing episode.
+    private disposed = false
+
+    // Shown once, as the metadata is saved repeatedly and likely fails the same way each time.
+    private saveErrorShown = false
 
-    private shellPlayerQueryIntervalId: NodeJS.Timeout
+    private sleepTimer?: SleepTimer
 
     private downloadCancellationTokenSource?: CancellationTokenSource
 
@@ -37,49 +84,260 @@ export class Player {
         return this.state.status
     }
 
-    constructor(private shellPlayer: ShellPlayer, private storage: Storage,  
+    constructor(private backend: AudioBackend, private storage: Storage,
+            private cfg: PlayerConfiguration,
             private log: (msg: string) => void, private disposables: Disposable[]) {
         
-        disposables.push(this.shellPlayer.onStatusChange(shellPlayerStatus => {
-            const status = StatusMapping[shellPlayerStatus]
-            this.state = { status }
+        disposables.push(this.backend.onStatusChange(backendStatus => {
+            const status = StatusMapping[backendStatus]
+            // the position stays visible while paused
+            this.state = status == PlayerStatus.STOPPED ? { status } : this.getPlaybackState(status)
             if (status == PlayerStatus.PLAYING) {
+                if (this.pausedAt) {
+                    this.smartRewind((Date.now() - this.pausedAt) / 1000)
+                    this.pausedAt = undefined
+                }
+                this.lastCheckpoint = Date.now()
+                if (this.trimSilenceStats) {
+                    this.trimSilenceStats.lastTimestamp = Date.now()
+                    this.trimSilenceStats.lastPosition = this.backend.position
+                }
                 const updateState = () => {
-                    this.state = {
-                        status: PlayerStatus.PLAYING,
-                        duration: this.shellPlayer.duration,
-                        elapsed: this.shellPlayer.position,
-                        speed: this.shellPlayer.speed
+                    if (this.hasReachedSleepTimerChapterEnd()) {
+                        this.onSleepTimerExpired()
+                        return
+                    }
+                    if (this.hasReachedOutro()) {
+                        this.log(`Skipping outro`)
+                        // ends the episode like reaching the end of the file would
+                        this.backend.stop()
+                        return
+                    }
+                    this.state = this.getPlaybackState(PlayerStatus.PLAYING)
+                    this.updateTrimSilenceStats()
+                    const interval = this.cfg.checkpointInterval * 1000
+                    if (interval > 0 && Date.now() - this.lastCheckpoint >= interval) {
+                        this.checkpoint()
                     }
                 }
+                // Created first, as updateState() may stop playback right away, which clears it.
+                clearInterval(this.backendQueryIntervalId)
+                this.backendQueryIntervalId = setInterval(updateState, 1000)
                 updateState()
-                this.shellPlayerQueryIntervalId = setInterval(updateState, 1000)
             } else {
-                clearInterval(this.shellPlayerQueryIntervalId)
-                if (status == PlayerStatus.STOPPED) {
-                    this.storeListeningStatus()
+                clearInterval(this.backendQueryIntervalId)
+                if (this.trimSilenceStats) {
+                    this.updateTrimSilenceStats()
+                    this.trimSilenceStats.lastTimestamp = undefined
+                }
+                if (status == PlayerStatus.PAUSED) {
+                    this.pausedAt = Date.now()
+                    this.checkpoint()
+                } else if (status == PlayerStatus.STOPPED) {
+                    this.pausedAt = undefined
+                    this.reportTrimSilenceStats()
+                    this.storeVolume()
+                    if (!this.disposed) {
+                        this.catchSaveError(this.storage.storePlayingEpisode(undefined))
+                    }
+                    const completed = this.storeListeningStatus()
+                    if (!this.stopRequested && this.sleepTimer && this.sleepTimer.mode !== 'minutes') {
+                        this.log(`Sleep timer reached end of episode`)
+                        this.cancelSleepTimer()
+                    } else if (completed && !this.stopRequested) {
+                        this.playNextInQueue()
+                    }
                 }
             }
         }))
 
         disposables.push({
             dispose: () => {
-                clearInterval(this.shellPlayerQueryIntervalId)
+                this.disposed = true
+                clearInterval(this.backendQueryIntervalId)
+                this.cancelSleepTimer()
                 this.storeListeningStatus()
             }
         })
     }
 
-    private async storeListeningStatus() {
+    private getPlaybackState(status: PlayerStatus): PlayerState {
+        return {
+            status,
+            duration: this.backend.duration,
+            elapsed: this.backend.position,
+            speed: this.backend.speed,
+            chapter: this.getCurrentChapterTitle(),
+            volume: this.backend.volume,
+            muted: this.backend.muted,
+            sleepTimer: this.sleepTimer ? { remaining: this.getSleepTimerRemaining() } : undefined
+        }
+    }
+
+    updatePlayerConfiguration(cfg: PlayerConfiguration) {
+        this.cfg = cfg
+    }
+
+    // Returns whether the episode was completed.
+    private storeListeningStatus() {
         if (!this.currentEpisodeFeedUrl) {
-            return
+            return false
         }
         this.log(`Storing listening status`)
-        if (this.shellPlayer.position >= this.shellPlayer.duration - 10) {
-            this.storage.storeListeningStatus(this.currentEpisodeFeedUrl, this.currentEpisodeGuid!, true)
+        // The duration may be unknown when streaming and the player never reported it.
+        const outroSkip = this.getPreferences().outroSkip || 0
+        if (this.backend.duration && this.backend.position >= this.backend.duration - Math.max(10, outroSkip)) {
+            this.catchSaveError(this.storage.storeListeningStatus(this.currentEpisodeFeedUrl, this.currentEpisodeGuid!, true))
+            return true
         } else {
-            this.storage.storeListeningStatus(this.currentEpisodeFeedUrl, this.currentEpisodeGuid!, false, this.shellPlayer.position)
+            this.catchSaveError(this.storage.storeListeningStatus(this.currentEpisodeFeedUrl, this.currentEpisodeGuid!,
+                false, this.backend.position))
+            return false
+        }
+    }
+
+    private smartRewind(pause: number) {
+        const rewind = getSmartResumeRewind(pause, this.cfg)
+        if (rewind === 0 || !supportsCommand(this.backend, AudioBackendCommand.SEEK)) {
+            return
+        }
+        this.log(`Rewinding ${rewind}s after a pause of ${Math.round(pause)}s`)
+        this.seek(Math.max(0, this.backend.position - rewind))
+    }
+
+    private updateTrimSilenceStats() {
+        const stats = this.trimSilenceStats
+        if (!stats || stats.lastTimestamp === undefined) {
+            return
+        }
+        const now = Date.now()
+        const position = this.backend.position
+        const wallTime = (now - stats.lastTimestamp) / 1000
+        const saved = (position - stats.lastPosition) / this.backend.speed - wallTime
+        // larger differences are caused by seeking
+        if (saved > 0 && saved < 5) {
+            stats.saved += saved
+        }
+        stats.lastTimestamp = now
+        stats.lastPosition = position
+    }
+
+    private reportTrimSilenceStats() {
+        if (!this.trimSilenceStats) {
+            return
+        }
+        this.log(`Silence trimming saved ${toHumanDuration(this.trimSilenceStats.saved)}`)
+        this.trimSilenceStats = undefined
+    }
+
+    getAudioFilters(): AudioFilter[] {
+        const preferences = this.getPreferences()
+        return [AudioFilter.TRIM_SILENCE, AudioFilter.VOICE_BOOST]
+            .filter(filter => preferences[FILTER_PREFERENCES[filter]] && supportsFilter(this.backend, filter))
+    }
+
+    // Remembers the filter for the current podcast and restarts playback to apply it.
+    async toggleAudioFilter(filter: AudioFilter) {
+        if (!this.currentEpisodeFeedUrl) {
+            window.showWarningMessage('No episode is playing')
+            return
+        }
+        if (!supportsFilter(this.backend, filter)) {
+            window.showWarningMessage(`${this.backend.name} does not support this audio filter`)
+            return
         }
+        const feedUrl = this.currentEpisodeFeedUrl
+        const preferences: RoamingPodcastPreferences = Object.assign({}, this.getPreferences())
+        const key = FILTER_PREFERENCES[filter]
+        preferences[key] = !preferences[key]
+        this.log(`${preferences[key] ? 'Enabling' : 'Disabling'} ${key} for ${feedUrl}`)
+        this.storage.setPodcastPreferences(feedUrl, preferences)
+        await this.storage.saveMetadata({roaming: true})
+        if (this.backend.status !== AudioBackendStatus.STOPPED) {
+            await this.play(feedUrl, this.currentEpisodeGuid!, this.backend.position)
+        }
+    }
+
+    private getPreferences(): RoamingPodcastPreferences {
+        if (!this.currentEpisodeFeedUrl) {
+            return {}
+        }
+        return this.storage.getPodcastPreferences(this.currentEpisodeFeedUrl)
+    }
+
+    private hasReachedOutro() {
+        const outroSkip = this.getPreferences().outroSkip
+        return !!outroSkip && !!this.backend.duration && this.backend.position >= this.backend.duration - outroSkip
+    }
+
+    // Stores the position while playing, in case VS Code or the player process dies.
+    private checkpoint() {
+        if (!this.currentEpisodeFeedUrl) {
+            return
+        }
+        this.lastCheckpoint = Date.now()
+        this.storage.checkpointListeningPosition(this.currentEpisodeFeedUrl, this.currentEpisodeGuid!,
+            this.backend.position)
+    }
+
+    // Metadata is saved in the background, without delaying playback.
+    private catchSaveError(promise: Promise<void>) {
+        promise.catch(e => {
+            this.log(`Unable to save metadata: ${e.message}`)
+            if (!this.saveErrorShown) {
+                this.saveErrorShown = true
+                window.showErrorMessage(`Unable to save the listening status: ${e.message}`)
+            }
+        })
+    }
+
+    // Remembers the volume for the next episode.
+    private storeVolume() {
+        const volume = Math.round(this.backend.volume)
+        if (volume !== this.storage.getVolume()) {
+            this.log(`Storing volume`)
+            this.catchSaveError(this.storage.storeVolume(volume))
+        }
+    }
+
+    async resumeInterruptedEpisode() {
+        const playing = this.storage.getPlayingEpisode()
+        if (!playing || this.cfg.resumeOnStartup === 'never') {
+            return
+        }
+        const {feedUrl, guid} = playing
+        const episode = this.storage.getEpisode(feedUrl, guid)
+        if (!episode.local) {
+            this.log(`Interrupted episode ${guid} not found in ${feedUrl}`)
+            return
+        }
+        const position = this.storage.getLastListeningPosition(feedUrl, guid)
+        if (this.cfg.resumeOnStartup === 'prompt') {
+            const positionText = toHHMMSS(position).replace(/^00:/, '')
+            const pick = await window.showInformationMessage(
+                `Continue "${episode.local.title}" at ${positionText}?`, 'Continue', 'Dismiss')
+            if (pick !== 'Continue') {
+                if (pick === 'Dismiss') {
+                    this.catchSaveError(this.storage.storePlayingEpisode(undefined))
+                }
+                return
+            }
+            if (this.status !== PlayerStatus.STOPPED) {
+                // another episode was started in the meantime
+                return
+            }
+        }
+        this.log(`Resuming interrupted episode`)
+        await this.play(feedUrl, guid, position)
+    }
+
+    private async playNextInQueue() {
+        const next = this.storage.getQueue()[0]
+        if (!next) {
+            return
+        }
+        this.log(`Playing next episode in queue`)
+        await this.play(next.feedUrl, next.guid)
     }
 
     getWebsite() {
@@ -110,6 +368,10 @@ export class Player {
         return this.currentEpisodeFeedUrl
     }
 
+    getGuid() {
+        return this.currentEpisodeGuid
+    }
+
     cancelDownload() {
         if (this.state.status !== PlayerStatus.DOWNLOADING) {
             window.showInformationMessage('No download in progress')
@@ -119,34 +381,75 @@ export class Player {
     }
 
     async play(feedUrl: string, guid: string, startPosition: number | undefined=undefined) {
-        if (this.state.status === PlayerStatus.DOWNLOADING) {
-            window.showWarningMessage('Cannot download multiple episodes in parallel')
-            return
-        } else if (this.downloadCancellationTokenSource) {
+        if (this.downloadCancellationTokenSource) {
+            // A running download of the previous episode continues in the background,
+            // it is only cancelled explicitly or via the downloads list.
             this.downloadCancellationTokenSource.dispose()
         }
+        if (this.backend.status !== AudioBackendStatus.STOPPED) {
+            // stores the listening status of the current episode
+            this.stopPlayback()
+        }
+        if (this.sleepTimer && this.sleepTimer.mode === 'endOfChapter') {
+            // chapter index refers to the previous episode
+            this.cancelSleepTimer()
+        }
         this.currentEpisodeFeedUrl = feedUrl
         this.currentEpisodeGuid = guid
+        this.chapters = []
+        this.catchSaveError(this.storage.storePlayingEpisode({feedUrl, guid}))
+        if (this.storage.removeFromQueue(feedUrl, guid)) {
+            this.catchSaveError(this.storage.saveMetadata({roaming: true}))
+        }
         this.downloadCancellationTokenSource = new CancellationTokenSource()
         const token = this.downloadCancellationTokenSource.token
         
         try {
-            this.state = { status: PlayerStatus.DOWNLOADING }
-            const enclosurePath = await this.storage.fetchEpisodeEnclosure(feedUrl, guid,
-                progress => {
-                    this.state = {
-                        status: PlayerStatus.DOWNLOADING,
-                        downloadProgress: progress
-                    }
-                },
-                token
-            )
-
-            this.state = { status: PlayerStatus.OPENING }
+            let enclosurePath: string
+            if (this.shouldStream(feedUrl, guid)) {
+                this.state = { status: PlayerStatus.OPENING }
+                enclosurePath = await this.storage.getEpisodeEnclosureUrl(feedUrl, guid)
+                if (this.isSuperseded(token)) {
+                    return
+                }
+                if (this.cfg.streamingMode === 'streamAndKeep') {
+                    this.storage.fetchEpisodeEnclosure(feedUrl, guid).catch(e => {
+                        this.log(`Background download of ${enclosurePath} failed: ${e.message}`)
+                    })
+                }
+            } else {
+                this.state = { status: PlayerStatus.DOWNLOADING }
+                enclosurePath = await this.storage.fetchEpisodeEnclosure(feedUrl, guid,
+                    progress => {
+                        if (this.isSuperseded(token)) {
+                            return
+                        }
+                        this.state = {
+                            status: PlayerStatus.DOWNLOADING,
+                            downloadProgress: progress
+                        }
+                    },
+                    token
+                )
+                if (this.isSuperseded(token)) {
+                    return
+                }
+                this.state = { status: PlayerStatus.OPENING }
+            }
 
+            const preferences = this.storage.getPodcastPreferences(feedUrl)
             if (startPosition === undefined) {
-                startPosition = this.storage.getLastListeningPosition(feedUrl, guid)
-                if (startPosition > 0 && !this.shellPlayer.supportsStartOffset()) {
+                let lastPosition = this.storage.getLastListeningPosition(feedUrl, guid)
+                const lastPlayed = lastPosition > 0 ? this.storage.getEpisode(feedUrl, guid).roaming!.lastPlayed : undefined
+                if (lastPlayed) {
+                    const rewind = getSmartResumeRewind((Date.now() - lastPlayed) / 1000, this.cfg)
+                    if (rewind > 0) {
+                        this.log(`Rewinding ${rewind}s since the episode was last played`)
+                        lastPosition = Math.max(0, lastPosition - rewind)
+                    }
+                }
+                startPosition = Math.max(lastPosition, preferences.introSkip || 0)
+                if (startPosition > 0 && !this.backend.capabilities.startOffset) {
                     startPosition = 0
                     window.showWarningMessage(`Playing from beginning, player does not support arbitrary positions`)
                 }
@@ -157,23 +460,218 @@ export class Player {
             const episode = this.storage.getEpisode(feedUrl, guid)
             const thumbnailUrl = episode.local!.thumbnailUrl
             
-            await this.shellPlayer.play(enclosurePath,
-                startPosition,
-                duration,
-                thumbnailUrl,
+            this.stopRequested = false
+            const filters = this.getAudioFilters()
+            if (filters.includes(AudioFilter.TRIM_SILENCE) && this.backend.capabilities.positionReporting) {
+                this.trimSilenceStats = { saved: 0, lastPosition: startPosition }
+            }
+            await this.backend.play(enclosurePath, {
+                    startPosition,
+                    duration,
+                    thumbnailUrl,
+                    volume: this.storage.getVolume(),
+                    filters
+                },
                 e => {
                     console.error(e)
                     window.showErrorMessage(e.message)
                 })
+            if (preferences.speed && supportsCommand(this.backend, AudioBackendCommand.SET_SPEED)) {
+                this.setSpeed(preferences.speed)
+            }
+            this.loadChapters(feedUrl, guid)
         } catch (e) {
+            if (this.isSuperseded(token)) {
+                this.log(`Not playing ${feedUrl} ${guid} anymore: ${e.message}`)
+                return
+            }
             console.error(e)
             window.showErrorMessage(e.message)
             this.state = { status: PlayerStatus.STOPPED }
+            this.catchSaveError(this.storage.storePlayingEpisode(undefined))
+        }
+    }
+
+    // Whether another episode was started since the one using the given token.
+    private isSuperseded(token: CancellationToken) {
+        return this.downloadCancellationTokenSource!.token !== token
+    }
+
+    private async loadChapters(feedUrl: string, guid: string) {
+        let chapters: ChapterMetadata[]
+        try {
+            chapters = await this.storage.fetchEpisodeChapters(feedUrl, guid)
+        } catch (e) {
+            this.log(`Unable to load chapters: ${e.message}`)
+            return
+        }
+        // Another episode may have been started in the meantime.
+        if (this.currentEpisodeFeedUrl === feedUrl && this.currentEpisodeGuid === guid) {
+            this.log(`Loaded ${chapters.length} chapters`)
+            this.chapters = chapters
         }
     }
 
+    getChapters() {
+        return this.chapters
+    }
+
+    getCurrentChapterIndex() {
+        return getChapterIndex(this.chapters, this.backend.position)
+    }
+
+    private getCurrentChapterTitle() {
+        const idx = this.getCurrentChapterIndex()
+        return idx === -1 ? undefined : this.chapters[idx].title
+    }
+
+    jumpToChapter(index: number) {
+        this.seek(this.chapters[index].start)
+    }
+
+    nextChapter() {
+        if (!this.canJumpToChapter()) {
+            return
+        }
+        const idx = this.getCurrentChapterIndex() + 1
+        if (idx >= this.chapters.length) {
+            window.showInformationMessage('This is the last chapter')
+            return
+        }
+        this.jumpToChapter(idx)
+    }
+
+    previousChapter() {
+        if (!this.canJumpToChapter()) {
+            return
+        }
+        let idx = this.getCurrentChapterIndex()
+        // Like on CD players, go to the start of the current chapter first.
+        if (idx !== -1 && this.backend.position - this.chapters[idx].start < 3) {
+            idx--
+        }
+        if (idx === -1) {
+            this.seek(0)
+        } else {
+            this.jumpToChapter(idx)
+        }
+    }
+
+    private canJumpToChapter() {
+        if (this.chapters.length === 0) {
+            window.showInformationMessage('Episode has no chapters')
+            return false
+        }
+        if (!this.canSeek()) {
+            window.showWarningMessage(`${this.backend.name} does not support jumping to chapters`)
+            return false
+        }
+        return true
+    }
+
+    private shouldStream(feedUrl: string, guid: string) {
+        if (this.cfg.streamingMode === 'downloadThenPlay' || this.storage.isEpisodeDownloaded(feedUrl, guid)) {
+            return false
+        }
+        if (!this.backend.capabilities.streaming) {
+            this.log(`${this.backend.name} cannot stream episodes, downloading first`)
+            return false
+        }
+        return true
+    }
+
     stop() {
-        this.shellPlayer.stop()
+        this.cancelSleepTimer()
+        this.stopPlayback()
+    }
+
+    private stopPlayback() {
+        this.stopRequested = true
+        this.backend.stop()
+    }
+
+    setSleepTimer(mode: SleepTimerMode, minutes?: number) {
+        this.cancelSleepTimer()
+        if (mode === 'minutes') {
+            const ms = minutes! * 60 * 1000
+            this.sleepTimer = {
+                mode,
+                stopAt: Date.now() + ms,
+                timeoutId: setTimeout(() => this.onSleepTimerExpired(), ms),
+                refreshIntervalId: setInterval(() => {
+                    if (this.status === PlayerStatus.PAUSED) {
+                        this.state = this.getPlaybackState(PlayerStatus.PAUSED)
+                    }
+                }, 1000)
+            }
+            this.log(`Sleep timer set to ${minutes} min`)
+        } else if (mode === 'endOfChapter') {
+            if (this.chapters.length === 0) {
+                throw new Error('Episode has no chapters')
+            }
+            this.sleepTimer = {
+                mode,
+                chapterIndex: this.getCurrentChapterIndex()
+            }
+            this.log(`Sleep timer set to end of chapter`)
+        } else {
+            this.sleepTimer = { mode }
+            this.log(`Sleep timer set to end of episode`)
+        }
+    }
+
+    getSleepTimerMode() {
+        return this.sleepTimer ? this.sleepTimer.mode : undefined
+    }
+
+    // Returns the real time in seconds until the sleep timer stops playback.
+    getSleepTimerRemaining(): number | undefined {
+        const timer = this.sleepTimer
+        if (!timer) {
+            return
+        }
+        if (timer.mode === 'minutes') {
+            return Math.max(0, (timer.stopAt! - Date.now()) / 1000)
+        }
+        let end = this.backend.duration
+        if (timer.mode === 'endOfChapter' && timer.chapterIndex! + 1 < this.chapters.length) {
+            end = this.chapters[timer.chapterIndex! + 1].start
+        }
+        if (!end) {
+            return
+        }
+        return Math.max(0, (end - this.backend.position) / this.backend.speed)
+    }
+
+    cancelSleepTimer() {
+        if (!this.sleepTimer) {
+            return
+        }
+        if (this.sleepTimer.timeoutId) {
+            clearTimeout(this.sleepTimer.timeoutId)
+        }
+        if (this.sleepTimer.refreshIntervalId) {
+            clearInterval(this.sleepTimer.refreshIntervalId)
+        }
+        this.sleepTimer = undefined
+        this.log(`Sleep timer cancelled`)
+    }
+
+    private hasReachedSleepTimerChapterEnd() {
+        return this.sleepTimer !== undefined && this.sleepTimer.mode === 'endOfChapter' &&
+            this.getCurrentChapterIndex() > this.sleepTimer.chapterIndex!
+    }
+
+    private onSleepTimerExpired() {
+        if (this.backend.status === AudioBackendStatus.STOPPED) {
+            // the last episode ended before the timer did
+            this.log(`Sleep timer expired after playback ended`)
+            this.cancelSleepTimer()
+            return
+        }
+        this.log(`Sleep timer expired, stopping playback`)
+        // stores the listening status
+        this.stop()
     }
 
     async restart() {
@@ -181,29 +679,83 @@ export class Player {
             window.showWarningMessage('No episode is playing')
             return
         }
-        this.stop()
+        this.stopPlayback()
         const startPosition = 0
         await this.play(this.currentEpisodeFeedUrl, this.currentEpisodeGuid!, startPosition)
     }
 
     pause() {
-        this.shellPlayer.sendCommand(ShellPlayerCommand.PAUSE)
+        this.backend.sendCommand(AudioBackendCommand.PAUSE)
     }
 
     skipBackward() {
-        this.shellPlayer.sendCommand(ShellPlayerCommand.SKIP_BACKWARD)
+        this.backend.sendCommand(AudioBackendCommand.SKIP_BACKWARD)
     }
 
     skipForward() {
-        this.shellPlayer.sendCommand(ShellPlayerCommand.SKIP_FORWARD)
+        this.backend.sendCommand(AudioBackendCommand.SKIP_FORWARD)
     }
 
     slowdown() {
-        this.shellPlayer.sendCommand(ShellPlayerCommand.SLOWDOWN)
+        this.backend.sendCommand(AudioBackendCommand.SLOWDOWN)
     }
 
     speedup() {
-        this.shellPlayer.sendCommand(ShellPlayerCommand.SPEEDUP)
+        this.backend.sendCommand(AudioBackendCommand.SPEEDUP)
+    }
+
+    canSeek() {
+        return supportsCommand(this.backend, AudioBackendCommand.SEEK) ||
+            (supportsCommand(this.backend, AudioBackendCommand.SKIP_FORWARD) &&
+             supportsCommand(this.backend, AudioBackendCommand.SKIP_BACKWARD))
+    }
+
+    seek(position: number) {
+        if (supportsCommand(this.backend, AudioBackendCommand.SEEK)) {
+            this.backend.sendCommand(AudioBackendCommand.SEEK, position)
+        } else {
+            this.seekBySkipping(position)
+        }
+    }
+
+    // Fallback for players that only support relative seeking,
+    // lands on the reachable position closest to the requested one.
+    private seekBySkipping(position: number) {
+        const delta = position - this.backend.position
+        const cmd = delta > 0 ? AudioBackendCommand.SKIP_FORWARD : AudioBackendCommand.SKIP_BACKWARD
+        const step = Math.abs(getCommandInfo(this.backend, cmd))
+        const count = Math.round(Math.abs(delta) / step)
+        for (let i = 0; i < count; i++) {
+            this.backend.sendCommand(cmd)
+        }
+    }
+
+    setSpeed(speed: number) {
+        this.backend.sendCommand(AudioBackendCommand.SET_SPEED, speed)
+    }
+
+    volumeUp() {
+        this.sendVolumeCommand(AudioBackendCommand.VOLUME_UP)
+    }
+
+    volumeDown() {
+        this.sendVolumeCommand(AudioBackendCommand.VOLUME_DOWN)
+    }
+
+    setVolume(volume: number) {
+        this.sendVolumeCommand(AudioBackendCommand.SET_VOLUME, volume)
+    }
+
+    mute() {
+        this.sendVolumeCommand(AudioBackendCommand.MUTE)
+    }
+
+    private sendVolumeCommand(cmd: AudioBackendCommand, value?: number) {
+        this.backend.sendCommand(cmd, value)
+        if (this.status === PlayerStatus.PAUSED) {
+            // the state is only updated periodically while playing
+            this.state = this.getPlaybackState(PlayerStatus.PAUSED)
+        }
     }
 
 }
\ No newline at end of file
@@ -10,4 +10,8 @@ export class Resources {
             dark: Uri.file(this.context.asAbsolutePath(`resources/icons/dark/${name}.svg`))
         }
     }
+
+    getPath(name: string): Uri {
+        return Uri.file(this.context.asAbsolutePath(`resources/${name}`))
+    }
 }
\ No newline at end of file
@@ -0,0 +1,85 @@
+// Merges roaming metadata written by different devices, e.g. when syncing roaming.json via Dropbox.
+// Each part is taken from the side that modified it last, based on:
+// - lastPlayed for the listening status of an episode
+// - starredModified and preferencesModified for podcasts
+// - queueModified for the queue
+// Files written by older versions lack these timestamps, in which case `preferred` wins.
+// Bookmarks are merged one by one instead, so that bookmarks added on different devices
+// are all kept. Removed bookmarks are remembered by their id and stay removed, until the
+// removal is older than DELETED_BOOKMARK_RETENTION. By then all devices are expected to
+// have synced, otherwise a device that was offline longer may bring a bookmark back.
+
+import { RoamingStorageMetadata, RoamingPodcastMetadata, RoamingEpisodeMetadata, RoamingBookmark,
+         RoamingDeletedBookmark } from './storage'
+
+export const DELETED_BOOKMARK_RETENTION = 90 * 24 * 60 * 60 * 1000 // ms
+
+function isNewer(other?: number, preferred?: number) {
+    return (other || 0) > (preferred || 0)
+}
+
+function mergeBookmarks(other: RoamingEpisodeMetadata, preferred: RoamingEpisodeMetadata, now: number) {
+    const deleted = new Map<number, RoamingDeletedBookmark>()
+    for (const entry of [...(other.deletedBookmarks || []), ...(preferred.deletedBookmarks || [])]) {
+        deleted.set(entry.created, entry)
+    }
+    const bookmarks = new Map<number, RoamingBookmark>()
+    for (const bookmark of [...(other.bookmarks || []), ...(preferred.bookmarks || [])]) {
+        if (!deleted.has(bookmark.created)) {
+            bookmarks.set(bookmark.created, bookmark)
+        }
+    }
+    const kept = [...deleted.values()].filter(entry => entry.deleted > now - DELETED_BOOKMARK_RETENTION)
+    return {
+        bookmarks: bookmarks.size > 0 ? [...bookmarks.values()].sort((a, b) => a.position - b.position) : undefined,
+        deletedBookmarks: kept.length > 0 ? kept : undefined
+    }
+}
+
+function mergeEpisode(other: RoamingEpisodeMetadata, preferred: RoamingEpisodeMetadata,
+                      now: number): RoamingEpisodeMetadata {
+    const status = isNewer(other.lastPlayed, preferred.lastPlayed) ? other : preferred
+    const { bookmarks, deletedBookmarks } = mergeBookmarks(other, preferred, now)
+    return {
+        ...preferred,
+        completed: status.completed,
+        lastPosition: status.lastPosition,
+        lastPlayed: status.lastPlayed,
+        bookmarks: bookmarks,
+        bookmarksModified: Math.max(other.bookmarksModified || 0, preferred.bookmarksModified || 0) || undefined,
+        deletedBookmarks: deletedBookmarks
+    }
+}
+
+function mergePodcast(other: RoamingPodcastMetadata, preferred: RoamingPodcastMetadata,
+                      now: number): RoamingPodcastMetadata {
+    const starred = isNewer(other.starredModified, preferred.starredModified) ? other : preferred
+    const preferences = isNewer(other.preferencesModified, preferred.preferencesModified) ? other : preferred
+    const episodes = {...other.episodes}
+    for (const [guid, episode] of Object.entries(preferred.episodes)) {
+        episodes[guid] = guid in other.episodes ? mergeEpisode(other.episodes[guid], episode, now) : episode
+    }
+    return {
+        ...preferred,
+        starred: starred.starred,
+        starredModified: starred.starredModified,
+        preferences: preferences.preferences,
+        preferencesModified: preferences.preferencesModified,
+        episodes: episodes
+    }
+}
+
+export function mergeRoamingMetadata(other: RoamingStorageMetadata, preferred: RoamingStorageMetadata,
+                                     now = Date.now()): RoamingStorageMetadata {
+    const podcasts = {...other.podcasts}
+    for (const [feedUrl, podcast] of Object.entries(preferred.podcasts)) {
+        podcasts[feedUrl] = feedUrl in other.podcasts ? mergePodcast(other.podcasts[feedUrl], podcast, now) : podcast
+    }
+    const queue = isNewer(other.queueModified, preferred.queueModified) ? other : preferred
+    return {
+        ...preferred,
+        podcasts: podcasts,
+        queue: queue.queue,
+        queueModified: queue.queueModified
+    }
+}
@@ -1,7 +1,8 @@
 import { StatusBarItem, window, StatusBarAlignment, Disposable } from "vscode";
-import { NAMESPACE } from "./constants";
+import { NAMESPACE, COMMANDS } from "./constants";
 import { toHumanDuration, toFixed } from "./util";
 import { PlayerStatus, PlayerState } from "./types";
+import { DownloadManager } from "./downloadManager";
 
 export class StatusBar {
     private readonly textPrefix = '$(radio-tower) '
@@ -38,15 +39,72 @@ export class StatusBar {
             this.text = text
         } else if (state.status === PlayerStatus.OPENING) {
             this.text = 'Opening...'
-        } else if (state.duration && state.elapsed) {
-            const remaining = state.duration - state.elapsed
+        } else if (state.elapsed && state.status !== PlayerStatus.STOPPED) {
             let speed = ''
             if (state.speed && Math.abs(state.speed - 1.0) > 0.05) {
                 speed = ' | ' + toFixed(state.speed, 1) + 'x'
             }
-            this.text = toHumanDuration(remaining) + ' left' + speed
+            let sleepTimer = ''
+            if (state.sleepTimer) {
+                sleepTimer = ' | $(watch)'
+                if (state.sleepTimer.remaining !== undefined) {
+                    sleepTimer += ' ' + toHumanDuration(state.sleepTimer.remaining)
+                }
+            }
+            // the duration is unknown for some formats when streaming or without ffprobe
+            let time: string
+            if (state.duration) {
+                time = toHumanDuration(state.duration - state.elapsed) + ' left'
+            } else {
+                time = toHumanDuration(state.elapsed) + ' elapsed'
+            }
+            this.text = time + speed + sleepTimer
+            const tooltip: string[] = []
+            if (state.chapter) {
+                tooltip.push(`Chapter: ${state.chapter}`)
+            }
+            if (state.muted) {
+                tooltip.push('Volume: muted')
+            } else if (state.volume !== undefined) {
+                tooltip.push(`Volume: ${Math.round(state.volume)}%`)
+            }
+            this.statusBarItem.tooltip = tooltip.length > 0 ? tooltip.join('\n') : undefined
+        } else if (state.status === PlayerStatus.STOPPED) {
+            this.statusBarItem.tooltip = undefined
         }
 
         this.state = state
     }
 }
+
+// Shown while downloads are running, in addition to the player status.
+export class DownloadsStatusBar {
+    private statusBarItem: StatusBarItem
+
+    constructor(private downloads: DownloadManager, private disposables: Disposable[]) {
+        this.statusBarItem = window.createStatusBarItem(StatusBarAlignment.Right, 99)
+        this.statusBarItem.command = COMMANDS.SHOW_DOWNLOADS
+        this.disposables.push(this.statusBarItem)
+        this.disposables.push(downloads.onDidChange(() => this.update()))
+    }
+
+    private update() {
+        const downloads = this.downloads.getDownloads()
+        if (downloads.length === 0) {
+            this.statusBarItem.hide()
+            return
+        }
+        let received = 0
+        let total = 0
+        for (const download of downloads) {
+            if (download.total) {
+                received += download.received
+                total += download.total
+            }
+        }
+        const progress = total > 0 ? ` ${Math.round(received / total * 100)}%` : ''
+        this.statusBarItem.text = `$(cloud-download) ${downloads.length}${progress}`
+        this.statusBarItem.tooltip = downloads.map(download => download.title).join('\n')
+        this.statusBarItem.show()
+    }
+}
@@ -5,15 +5,22 @@ import {promisify} from 'util';
 import * as requestp from 'request-promise-native';
 import parsePodcast from './3rdparty/podcast-parser';
 import { parseString as parseXML } from 'xml2js';
-import { downloadFile, getAudioDuration } from './util';
+import { getAudioDuration, writeFileAtomic } from './util';
+import { DownloadManager } from './downloadManager';
+import { parseJsonChapters, parseNormalPlayTime, readId3Chapters } from './chapters';
+import { mergeRoamingMetadata } from './roamingMerge';
+import { migrateLocalMetadata, migrateRoamingMetadata, LOCAL_METADATA_VERSION,
+         ROAMING_METADATA_VERSION } from './migrations';
 import { mkdirp } from './3rdparty/util';
 import { URL } from 'url';
-import { CancellationToken } from 'vscode';
+import { CancellationToken, EventEmitter } from 'vscode';
 
 const exists = promisify(fs.exists)
 const readFile = promisify(fs.readFile)
-const writeFile = promisify(fs.writeFile)
 const unlink = promisify(fs.unlink)
+const rename = promisify(fs.rename)
+const stat = promisify(fs.stat)
+const access = promisify(fs.access)
 
 export interface LocalEpisodeMetadata {
     title: string
@@ -23,6 +30,14 @@ export interface LocalEpisodeMetadata {
     duration?: number // seconds
     published?: number // timestamp
     enclosureUrl: string
+    chaptersUrl?: string // Podcasting 2.0 JSON chapters
+    chapters?: ChapterMetadata[] // from the feed, chaptersUrl, or the downloaded enclosure
+}
+
+export interface ChapterMetadata {
+    start: number // seconds
+    title: string
+    url?: string
 }
 
 export interface LocalDownloadedEpisodeMetadata {
@@ -33,28 +48,78 @@ export interface LocalPodcastMetadata {
     title: string
     description?: string
     homepageUrl: string
+    thumbnailUrl?: string
     episodes: { [guid: string]: LocalEpisodeMetadata }
     lastRefreshed: number // timestamp
     downloaded: { [guid: string]: LocalDownloadedEpisodeMetadata }
 }
 
 export interface LocalStorageMetadata {
+    version: number // see migrations.ts
     podcasts: { [rssUrl: string]: LocalPodcastMetadata }
+    volume?: number // percentage, last used by the player
+    playing?: LocalPlayingEpisode // episode that was playing when VS Code was closed
+}
+
+export interface LocalPlayingEpisode {
+    feedUrl: string
+    guid: string
 }
 
 export interface RoamingEpisodeMetadata {
     completed: boolean
     lastPosition?: number // seconds
     lastPlayed?: number // timestamp
+    bookmarks?: RoamingBookmark[]
+    bookmarksModified?: number // timestamp
+    deletedBookmarks?: RoamingDeletedBookmark[] // so that merging does not bring them back
+}
+
+export interface RoamingBookmark {
+    position: number // seconds
+    note?: string
+    created: number // timestamp, also identifies the bookmark
+    // for listing bookmarks of podcasts not loaded on this machine
+    podcastTitle?: string
+    episodeTitle?: string
+}
+
+export interface RoamingDeletedBookmark {
+    created: number // identifies the bookmark
+    deleted: number // timestamp, forgotten after a while, see roamingMerge.ts
+}
+
+export interface Bookmark extends RoamingBookmark {
+    feedUrl: string
+    guid: string
 }
 
 export interface RoamingPodcastMetadata {
     starred: boolean
+    starredModified?: number // timestamp
     episodes: { [guid: string]: RoamingEpisodeMetadata }
+    preferences?: RoamingPodcastPreferences
+    preferencesModified?: number // timestamp
+}
+
+export interface RoamingPodcastPreferences {
+    speed?: number // ratio
+    introSkip?: number // seconds skipped at the start of each episode
+    outroSkip?: number // seconds skipped at the end of each episode
+    trimSilence?: boolean
+    voiceBoost?: boolean
+}
+
+export interface RoamingQueueItem {
+    feedUrl: string
+    guid: string
 }
 
 export interface RoamingStorageMetadata {
+    version: number // see migrations.ts
     podcasts: { [rssUrl: string]: RoamingPodcastMetadata }
+    queue: RoamingQueueItem[]
+    queueModified?: number // timestamp
 }
 
 export interface StorageMetadata {
@@ -70,18 +135,51 @@ export interface LocalRoaming<L,R> {
 export type PodcastMetadata = LocalRoaming<LocalPodcastMetadata, RoamingPodcastMetadata>
 export type EpisodeMetadata = LocalRoaming<LocalEpisodeMetadata, RoamingEpisodeMetadata>
 
+// Checkpoints written within this time are saved together.
+const CHECKPOINT_SAVE_DELAY = 5 * 1000 // ms
+
+// Backups of local.json and roaming.json are kept in the backups/ folder
+// as <name>.1 (newest) to <name>.<BACKUP_COUNT> and rotated at most once per BACKUP_INTERVAL.
+const BACKUP_COUNT = 5
+const BACKUP_INTERVAL = 60 * 60 * 1000 // ms
+
+// How to combine the roaming metadata of the old and new location when the roaming path changes:
+// copy = overwrite the new location with the current data, merge = combine both,
+// adopt = discard the current data and use the one at the new location.
+export type RoamingPathChangeMode = 'copy' | 'merge' | 'adopt'
+
+export interface RestoredBackup {
+    filePath: string // file that could not be parsed
+    backupPath?: string // undefined if no valid backup exists and empty metadata is used instead
+    corruptPath: string // where the file that could not be parsed was moved to
+}
+
+export interface RefusedMetadata {
+    filePath: string // file written by a newer extension version, never saved until updating
+    message: string
+}
+
+interface ListeningCheckpoint {
+    feedUrl: string
+    guid: string
+    position: number // seconds
+}
+
 const DEFAULT_STORAGE_METADATA: StorageMetadata = {
     local: {
+        version: LOCAL_METADATA_VERSION,
         podcasts: {}
     },
     roaming: {
+        version: ROAMING_METADATA_VERSION,
         podcasts: {
             "https://rss.simplecast.com/podcasts/363/rss": { starred: true, episodes: {} },
             "https://feeds.simplecast.com/gvtxUiIf": { starred: true, episodes: {} },
             "http://feeds.feedburner.com/ProgrammingThrowdown": { starred: true, episodes: {} },
             "https://changelog.com/podcast/feed": { starred: true, episodes: {} },
             "https://feeds.simplecast.com/k0fI37e5": { starred: true, episodes: {} }
-        }
+        },
+        queue: []
     }
 }
 
@@ -90,25 +188,81 @@ export class Storage {
     private roamingMetadataPath: string
     private metadata: StorageMetadata
     private enclosuresPath: string
+    private backupsPath: string
     private roamingMetadataLastSaved = new Date(0)
+    private unsavedCheckpoint?: ListeningCheckpoint
+    private checkpointSaveTimeoutId?: NodeJS.Timeout
+
+    // Set while a file written by a newer extension version is refused, to never overwrite it.
+    private refused = {local: false, roaming: false}
+
+    // Show notes of the feeds loaded in this session, not stored as they may make local.json
+    // many megabytes large. Keyed by feed URL and GUID, the value may contain HTML.
+    private showNotes = new Map<string, string | undefined>()
+    private showNotesRefreshed = new Set<string>() // feed URLs
+
+    private _onDidRestoreBackup = new EventEmitter<RestoredBackup>()
+    onDidRestoreBackup = this._onDidRestoreBackup.event
+
+    private _onDidRefuseMetadata = new EventEmitter<RefusedMetadata>()
+    onDidRefuseMetadata = this._onDidRefuseMetadata.event
 
-    constructor(private storagePath: string, roamingPath: string | undefined, private log: (msg: string) => void) {
+    constructor(private storagePath: string, roamingPath: string | undefined, private downloads: DownloadManager,
+                private log: (msg: string) => void) {
         this.localMetadataPath = path.join(storagePath, 'local.json')
         this.enclosuresPath = path.join(storagePath, 'enclosures')
+        this.backupsPath = path.join(storagePath, 'backups')
         mkdirp(storagePath)
         mkdirp(this.enclosuresPath)
-        this.setRoamingPath(roamingPath)
+        mkdirp(this.backupsPath)
+        this.roamingMetadataPath = this.resolveRoamingMetadataPath(roamingPath)
     }
 
-    setRoamingPath(roamingPath: string | undefined) {
-        // TODO move existing roaming metadata if folder changed
-        let newRoamingPath: string
-        if (roamingPath) {
-            newRoamingPath = roamingPath
-        } else {
-            newRoamingPath = this.storagePath
+    // Returns the path of roaming.json for the podcasts.storage.roamingPath setting.
+    resolveRoamingMetadataPath(roamingPath: string | undefined) {
+        return path.join(roamingPath ? roamingPath : this.storagePath, 'roaming.json')
+    }
+
+    async setRoamingPath(roamingPath: string | undefined, mode: RoamingPathChangeMode) {
+        const newPath = this.resolveRoamingMetadataPath(roamingPath)
+        if (newPath === this.roamingMetadataPath) {
+            return
+        }
+        const folder = path.dirname(newPath)
+        if (!await exists(folder) || !(await stat(folder)).isDirectory()) {
+            throw new Error(`${folder} does not exist or is not a folder`)
         }
-        this.roamingMetadataPath = path.join(newRoamingPath, 'roaming.json')
+        try {
+            await access(folder, fs.constants.W_OK)
+        } catch (e) {
+            throw new Error(`${folder} is not writable`)
+        }
+
+        // Read first, so that nothing changes if the existing file is invalid.
+        let existing: RoamingStorageMetadata | undefined
+        if (mode !== 'copy' && await exists(newPath)) {
+            const data = JSON.parse(await readFile(newPath, 'utf-8'))
+            existing = migrateRoamingMetadata(data, newPath)
+        }
+
+        this.log(`Changing roaming metadata location to ${newPath} (${mode})`)
+        this.roamingMetadataPath = newPath
+        this.refused.roaming = false
+        if (mode === 'adopt' && existing) {
+            this.metadata.roaming = existing
+            return
+        }
+        if (mode === 'merge' && existing) {
+            this.metadata.roaming = mergeRoamingMetadata(existing, this.metadata.roaming)
+        }
+        // Saving would merge with the existing file, which copying must not.
+        const jsonRoaming = JSON.stringify(this.metadata.roaming, null, 1)
+        this.roamingMetadataLastSaved = new Date()
+        await this.writeMetadataFile(newPath, jsonRoaming)
+    }
+
+    hasRoamingMetadata(roamingPath: string | undefined) {
+        return fs.existsSync(this.resolveRoamingMetadataPath(roamingPath))
     }
 
     getRoamingPath() {
@@ -120,12 +274,20 @@ export class Storage {
     }
 
     async loadMetadata(opts?: {local?: boolean, roaming?: boolean}) {
-        const meta = this.metadata || DEFAULT_STORAGE_METADATA
+        // copied, as it is modified in place
+        const meta: StorageMetadata = this.metadata || JSON.parse(JSON.stringify(DEFAULT_STORAGE_METADATA))
         if (!opts || opts.local) {
             if (await exists(this.localMetadataPath)) {
                 this.log(`Loading local metadata from ${this.localMetadataPath}`)
-                const json = await readFile(this.localMetadataPath, 'utf-8')
-                meta.local = JSON.parse(json)
+                const data = await this.readMetadataFile(this.localMetadataPath)
+                if (data !== undefined) {
+                    try {
+                        meta.local = migrateLocalMetadata(data, 'local.json')
+                        this.refused.local = false
+                    } catch (e) {
+                        this.refuse('local', this.localMetadataPath, e)
+                    }
+                }
             } else {
                 this.log(`No local metadata found at ${this.localMetadataPath}`)
             }
@@ -133,28 +295,167 @@ export class Storage {
         if (!opts || opts.roaming) {
             if (await exists(this.roamingMetadataPath)) {
                 this.log(`Loading roaming metadata from ${this.roamingMetadataPath}`)
-                const json = await readFile(this.roamingMetadataPath, 'utf-8')
-                meta.roaming = JSON.parse(json)
+                const data = await this.readMetadataFile(this.roamingMetadataPath)
+                if (data !== undefined) {
+                    try {
+                        const roaming = migrateRoamingMetadata(data, 'roaming.json')
+                        this.refused.roaming = false
+                        // Changes made here since the last save must survive an external update.
+                        meta.roaming = this.metadata ? mergeRoamingMetadata(this.metadata.roaming, roaming) : roaming
+                    } catch (e) {
+                        this.refuse('roaming', this.roamingMetadataPath, e)
+                    }
+                }
             } else {
                 this.log(`No roaming metadata found at ${this.roamingMetadataPath}`)
             }
         }
         this.metadata = meta
+        if ((!opts || opts.roaming) && this.unsavedCheckpoint) {
+            // An external update must not discard the position of the episode currently playing.
+            const {feedUrl, guid, position} = this.unsavedCheckpoint
+            this.applyCheckpoint(feedUrl, guid, position)
+        }
     }
 
     async saveMetadata(opts?: {local?: boolean, roaming?: boolean}) {
-        if (!opts || opts.local) {
+        if ((!opts || opts.local) && this.refused.local) {
+            this.log(`Not saving local metadata, ${this.localMetadataPath} is from a newer version`)
+        } else if (!opts || opts.local) {
             this.purgeOldMetadata()
             this.log(`Saving local metadata to ${this.localMetadataPath}`)
             const jsonLocal = JSON.stringify(this.metadata.local, null, 1)
-            await writeFile(this.localMetadataPath, jsonLocal, 'utf-8')
+            await this.writeMetadataFile(this.localMetadataPath, jsonLocal)
         }
-        if (!opts || opts.roaming) {
+        if ((!opts || opts.roaming) && this.refused.roaming) {
+            this.log(`Not saving roaming metadata, ${this.roamingMetadataPath} is from a newer version`)
+        } else if (!opts || opts.roaming) {
+            if (this.checkpointSaveTimeoutId) {
+                clearTimeout(this.checkpointSaveTimeoutId)
+                this.checkpointSaveTimeoutId = undefined
+            }
+            this.unsavedCheckpoint = undefined
+            // Another device may have written the file since we last loaded it.
+            await this.mergeRoamingMetadataFile()
+            if (this.refused.roaming) {
+                return
+            }
             this.log(`Saving roaming metadata to ${this.roamingMetadataPath}`)
             const jsonRoaming = JSON.stringify(this.metadata.roaming, null, 1)
             this.roamingMetadataLastSaved = new Date()
-            await writeFile(this.roamingMetadataPath, jsonRoaming, 'utf-8')
+            await this.writeMetadataFile(this.roamingMetadataPath, jsonRoaming)
+        }
+    }
+
+    // For saving after changes that do not need to wait for it, like cached feed data.
+    private saveMetadataInBackground(opts?: {local?: boolean, roaming?: boolean}) {
+        this.saveMetadata(opts).catch(e => {
+            this.log(`Unable to save metadata: ${e.message}`)
+        })
+    }
+
+    private async mergeRoamingMetadataFile() {
+        if (!await exists(this.roamingMetadataPath)) {
+            return
+        }
+        let data: any
+        try {
+            data = JSON.parse(await readFile(this.roamingMetadataPath, 'utf-8'))
+        } catch (e) {
+            // overwritten with the next save, backups are restored only when loading
+            this.log(`Not merging unreadable ${this.roamingMetadataPath}: ${e.message}`)
+            return
+        }
+        let roaming: RoamingStorageMetadata
+        try {
+            roaming = migrateRoamingMetadata(data, 'roaming.json')
+        } catch (e) {
+            this.refuse('roaming', this.roamingMetadataPath, e)
+            return
+        }
+        this.metadata.roaming = mergeRoamingMetadata(roaming, this.metadata.roaming)
+    }
+
+    // Keeps running with the metadata loaded before, or the defaults, without ever saving the file.
+    private refuse(kind: 'local' | 'roaming', filePath: string, error: Error) {
+        this.log(`Not using ${filePath}: ${error.message}`)
+        if (!this.refused[kind]) {
+            this.refused[kind] = true
+            this._onDidRefuseMetadata.fire({filePath, message: error.message})
+        }
+    }
+
+    // Returns undefined if the file is invalid but metadata was loaded before,
+    // e.g. while a sync tool is still writing it, which is more recent than any backup.
+    private async readMetadataFile(filePath: string): Promise<any> {
+        const json = await readFile(filePath, 'utf-8')
+        try {
+            return JSON.parse(json)
+        } catch (e) {
+            this.log(`Unable to parse ${filePath}: ${e.message}`)
+            if (this.metadata) {
+                this.log(`Keeping the metadata loaded before`)
+                return undefined
+            }
+            return await this.restoreBackup(filePath)
+        }
+    }
+
+    // Returns the content of the newest valid backup, or empty metadata if there is none.
+    private async restoreBackup(filePath: string): Promise<any> {
+        let backupPath: string | undefined
+        let data: any = { podcasts: {} } // version 0, migrated by the caller
+        for (let i = 1; i <= BACKUP_COUNT; i++) {
+            const candidatePath = this.getBackupPath(filePath, i)
+            if (!await exists(candidatePath)) {
+                break
+            }
+            try {
+                data = JSON.parse(await readFile(candidatePath, 'utf-8'))
+            } catch (e) {
+                this.log(`Unable to parse backup ${candidatePath}: ${e.message}`)
+                continue
+            }
+            backupPath = candidatePath
+            break
+        }
+        if (backupPath) {
+            this.log(`Restoring ${filePath} from ${backupPath}`)
+        } else {
+            this.log(`No valid backup of ${filePath} exists, starting with empty metadata`)
+        }
+        const corruptPath = path.join(this.backupsPath, path.basename(filePath) + '.corrupt')
+        await rename(filePath, corruptPath)
+        this._onDidRestoreBackup.fire({filePath, backupPath, corruptPath})
+        return data
+    }
+
+    private async writeMetadataFile(filePath: string, json: string) {
+        await writeFileAtomic(filePath, json)
+        try {
+            await this.rotateBackups(filePath, json)
+        } catch (e) {
+            this.log(`Unable to back up ${filePath}: ${e.message}`)
+        }
+    }
+
+    private async rotateBackups(filePath: string, json: string) {
+        const newestPath = this.getBackupPath(filePath, 1)
+        if (await exists(newestPath) && Date.now() - (await stat(newestPath)).mtimeMs < BACKUP_INTERVAL) {
+            return
         }
+        this.log(`Backing up ${filePath}`)
+        for (let i = BACKUP_COUNT - 1; i >= 1; i--) {
+            const backupPath = this.getBackupPath(filePath, i)
+            if (await exists(backupPath)) {
+                await rename(backupPath, this.getBackupPath(filePath, i + 1))
+            }
+        }
+        await writeFileAtomic(newestPath, json)
+    }
+
+    private getBackupPath(filePath: string, index: number) {
+        return path.join(this.backupsPath, `${path.basename(filePath)}.${index}`)
     }
 
     purgeOldMetadata() {
@@ -234,6 +535,7 @@ export class Storage {
     
         const podcast = await parsePodcast(data)
         const episodes: { [guid: string]: LocalEpisodeMetadata } = {}
+        const showNotes: { [guid: string]: string | undefined } = {}
         for (const episode of podcast.episodes) {
             if (!episode.enclosure) {
                 this.log(`Ignoring "${episode.title}" (GUID: ${episode.guid}), no enclosure found`)
@@ -246,14 +548,18 @@ export class Storage {
                 thumbnailUrl: episode.image,
                 published: episode.published ? episode.published.getTime() : undefined,
                 duration: episode.duration ? episode.duration : undefined,
-                enclosureUrl: episode.enclosure.url
+                enclosureUrl: episode.enclosure.url,
+                chaptersUrl: episode.chaptersUrl,
+                chapters: episode.chapters ? this.toChapters(episode.chapters) : undefined
             }
+            showNotes[episode.guid || episode.enclosure.url] = episode.showNotes
         }
 
         let feed: LocalPodcastMetadata = {
             title: podcast.title,
             description: podcast.description.short || podcast.description.long,
             homepageUrl: podcast.link,
+            thumbnailUrl: podcast.image,
             lastRefreshed: Date.now(),
             episodes: episodes,
             downloaded: {}
@@ -267,7 +573,20 @@ export class Storage {
             this.log(`Error extracting paging metadata in ${url}`)
         }
 
-        return {feed, nextPageUrl}
+        return {feed, showNotes, nextPageUrl}
+    }
+
+    private toChapters(pscChapters: {start: string, title: string, href?: string}[]): ChapterMetadata[] {
+        const chapters: ChapterMetadata[] = []
+        for (const chapter of pscChapters) {
+            const start = parseNormalPlayTime(chapter.start || '')
+            if (start === undefined) {
+                this.log(`Ignoring chapter "${chapter.title}", invalid start time: ${chapter.start}`)
+                continue
+            }
+            chapters.push({ start, title: chapter.title, url: chapter.href })
+        }
+        return chapters.sort((a, b) => a.start - b.start)
     }
 
     private async getNextPageUrl(feedXml: string): Promise<string | undefined> {
@@ -321,6 +640,9 @@ export class Storage {
         let nextPageUrl: string | undefined = url
         while (nextPageUrl) {
             const page = await this.loadPodcastFeed(nextPageUrl)
+            for (const guid of Object.keys(page.showNotes)) {
+                this.showNotes.set(url + '\n' + guid, page.showNotes[guid])
+            }
             // When feeds are split into pages and we already downloaded the feed before,
             // then we only want to fetch new pages. To do that we stop when we encounter
             // the first overlap.
@@ -346,7 +668,7 @@ export class Storage {
             this.deleteEpisodeEnclosure(url, guid, true)
         }
 
-        this.saveMetadata({local: true})
+        this.saveMetadataInBackground({local: true})
     }
 
     isEpisodeDownloaded(feedUrl: string, guid: string) {
@@ -355,39 +677,109 @@ export class Storage {
         return downloaded
     }
 
+    async getEpisodeEnclosureUrl(feedUrl: string, guid: string) {
+        const feed = (await this.fetchPodcast(feedUrl)).local!
+        return feed.episodes[guid].enclosureUrl
+    }
+
     async fetchEpisodeEnclosure(feedUrl: string, guid: string,
             onProgress?: (ratio: number) => void, token?: CancellationToken) {
         const feed = (await this.fetchPodcast(feedUrl)).local!
-        const episode = feed.episodes[guid]
         if (!(guid in feed.downloaded)) {
-            let enclosureFilename: string
-            let enclosurePath: string
-            do {
-                const urlPath = new URL(episode.enclosureUrl).pathname
-                const ext = path.extname(urlPath) || '.mp3'
-                enclosureFilename = Math.random().toString(36).substring(2, 15) + ext
-                enclosurePath = path.join(this.enclosuresPath, enclosureFilename)
-            } while (fs.existsSync(enclosurePath))
-    
-            this.log(`Downloading ${episode.enclosureUrl} to ${enclosurePath}`)
-            await downloadFile(episode.enclosureUrl, enclosurePath, onProgress, token)
-            feed.downloaded[guid] = {
-                filename: enclosureFilename
-            }
-            if (episode.duration === undefined) {
-                try {
-                    episode.duration = await getAudioDuration(enclosurePath)
-                } catch (e) {
-                    this.log(`Unable to read duration from ${enclosurePath}`)
-                }
-            }
-            this.saveMetadata({local: true})
+            await this.downloadEpisodeEnclosure(feedUrl, feed, guid, onProgress, token)
         }
         const enclosureFilename = feed.downloaded[guid].filename
         const enclosurePath = path.join(this.enclosuresPath, enclosureFilename)
         return enclosurePath
     }
 
+    private async downloadEpisodeEnclosure(feedUrl: string, feed: LocalPodcastMetadata, guid: string,
+            onProgress?: (ratio: number) => void, token?: CancellationToken) {
+        const episode = feed.episodes[guid]
+        let enclosurePath: string
+        do {
+            const urlPath = new URL(episode.enclosureUrl).pathname
+            const ext = path.extname(urlPath) || '.mp3'
+            const enclosureFilename = Math.random().toString(36).substring(2, 15) + ext
+            enclosurePath = path.join(this.enclosuresPath, enclosureFilename)
+        } while (fs.existsSync(enclosurePath))
+
+        // The same episode may already be downloading, e.g. in the background while streaming,
+        // in which case its path is returned.
+        enclosurePath = await this.downloads.download({
+            key: feedUrl + '\n' + guid,
+            url: episode.enclosureUrl,
+            path: enclosurePath,
+            title: episode.title
+        }, onProgress, token)
+        if (guid in feed.downloaded) {
+            // recorded by another request for the same download
+            return
+        }
+        feed.downloaded[guid] = {
+            filename: path.basename(enclosurePath)
+        }
+        if (episode.duration === undefined) {
+            try {
+                episode.duration = await getAudioDuration(enclosurePath)
+            } catch (e) {
+                this.log(`Unable to read duration from ${enclosurePath}`)
+            }
+        }
+        this.saveMetadataInBackground({local: true})
+    }
+
+    // Updates the feed once per session if the show notes are not known.
+    async fetchEpisodeShowNotes(feedUrl: string, guid: string): Promise<string | undefined> {
+        const key = feedUrl + '\n' + guid
+        if (!this.showNotes.has(key) && !this.showNotesRefreshed.has(feedUrl)) {
+            this.showNotesRefreshed.add(feedUrl)
+            await this.updatePodcast(feedUrl)
+        }
+        return this.showNotes.get(key)
+    }
+
+    async fetchEpisodeChapters(feedUrl: string, guid: string): Promise<ChapterMetadata[]> {
+        const feed = (await this.fetchPodcast(feedUrl)).local!
+        const episode = feed.episodes[guid]
+        if (episode.chapters) {
+            return episode.chapters
+        }
+        if (episode.chaptersUrl) {
+            this.log(`Requesting chapters from ${episode.chaptersUrl}`)
+            try {
+                const json = await requestp({
+                    url: episode.chaptersUrl,
+                    json: true,
+                    headers: {
+                        'User-Agent': 'Node'
+                    }
+                })
+                episode.chapters = parseJsonChapters(json)
+                this.saveMetadataInBackground({local: true})
+                return episode.chapters
+            } catch (e) {
+                this.log(`Unable to load chapters from ${episode.chaptersUrl}: ${e.message}`)
+            }
+        }
+        // Streamed episodes have no local file yet, chapters are read once downloaded.
+        if (guid in feed.downloaded) {
+            const enclosurePath = path.join(this.enclosuresPath, feed.downloaded[guid].filename)
+            try {
+                const chapters = await readId3Chapters(enclosurePath)
+                // Without ID3 chapters, chaptersUrl is retried next time.
+                if (chapters.length > 0 || !episode.chaptersUrl) {
+                    episode.chapters = chapters
+                    this.saveMetadataInBackground({local: true})
+                }
+                return chapters
+            } catch (e) {
+                this.log(`Unable to read chapters from ${enclosurePath}: ${e.message}`)
+            }
+        }
+        return []
+    }
+
     async deleteEpisodeEnclosure(feedUrl: string, guid: string, skipMetadataSave=false) {
         const feed = this.metadata.local.podcasts[feedUrl]
         const filename = feed.downloaded[guid].filename
@@ -405,9 +797,146 @@ export class Storage {
         return meta.roaming && meta.roaming.lastPosition ? meta.roaming.lastPosition : 0
     }
 
+    getPodcastPreferences(feedUrl: string): RoamingPodcastPreferences {
+        const podcast = this.metadata.roaming.podcasts[feedUrl]
+        return podcast && podcast.preferences ? podcast.preferences : {}
+    }
+
+    setPodcastPreferences(feedUrl: string, preferences: RoamingPodcastPreferences) {
+        const podcast = this.getOrCreateRoamingPodcast(feedUrl)
+        podcast.preferences = preferences
+        podcast.preferencesModified = Date.now()
+    }
+
     starPodcast(feedUrl: string, star: boolean) {
         const podcast = this.getOrCreateRoamingPodcast(feedUrl)
         podcast.starred = star
+        podcast.starredModified = Date.now()
+    }
+
+    getQueue(): RoamingQueueItem[] {
+        return this.metadata.roaming.queue
+    }
+
+    private getQueueIndex(feedUrl: string, guid: string) {
+        return this.getQueue().findIndex(item => item.feedUrl === feedUrl && item.guid === guid)
+    }
+
+    isQueued(feedUrl: string, guid: string) {
+        return this.getQueueIndex(feedUrl, guid) !== -1
+    }
+
+    addToQueue(feedUrl: string, guid: string, next=false) {
+        this.removeFromQueue(feedUrl, guid)
+        const item = { feedUrl, guid }
+        if (next) {
+            this.getQueue().unshift(item)
+        } else {
+            this.getQueue().push(item)
+        }
+        this.metadata.roaming.queueModified = Date.now()
+    }
+
+    removeFromQueue(feedUrl: string, guid: string) {
+        const idx = this.getQueueIndex(feedUrl, guid)
+        if (idx === -1) {
+            return false
+        }
+        this.getQueue().splice(idx, 1)
+        this.metadata.roaming.queueModified = Date.now()
+        return true
+    }
+
+    moveInQueue(feedUrl: string, guid: string, newIndex: number) {
+        const queue = this.getQueue()
+        const idx = this.getQueueIndex(feedUrl, guid)
+        if (idx === -1) {
+            throw new Error('Episode is not queued')
+        }
+        newIndex = Math.max(0, Math.min(newIndex, queue.length - 1))
+        const [item] = queue.splice(idx, 1)
+        queue.splice(newIndex, 0, item)
+        this.metadata.roaming.queueModified = Date.now()
+    }
+
+    getBookmarks(): Bookmark[] {
+        const bookmarks: Bookmark[] = []
+        for (const [feedUrl, podcast] of Object.entries(this.metadata.roaming.podcasts)) {
+            for (const [guid, episode] of Object.entries(podcast.episodes)) {
+                for (const bookmark of episode.bookmarks || []) {
+                    bookmarks.push({feedUrl, guid, ...bookmark})
+                }
+            }
+        }
+        return bookmarks
+    }
+
+    addBookmark(feedUrl: string, guid: string, position: number, note?: string) {
+        const episode = this.getOrCreateRoamingEpisode(feedUrl, guid)
+        if (!episode.bookmarks) {
+            episode.bookmarks = []
+        }
+        const podcast = this.getPodcast(feedUrl).local
+        const local = this.getEpisode(feedUrl, guid).local
+        episode.bookmarks.push({position, note, created: Date.now(),
+                                podcastTitle: podcast ? podcast.title : undefined,
+                                episodeTitle: local ? local.title : undefined})
+        episode.bookmarks.sort((a, b) => a.position - b.position)
+        episode.bookmarksModified = Date.now()
+    }
+
+    removeBookmark(feedUrl: string, guid: string, created: number) {
+        const episode = this.getOrCreateRoamingEpisode(feedUrl, guid)
+        if (!episode.bookmarks) {
+            return
+        }
+        episode.bookmarks = episode.bookmarks.filter(bookmark => bookmark.created !== created)
+        if (episode.bookmarks.length === 0) {
+            delete episode.bookmarks
+        }
+        episode.deletedBookmarks = [...(episode.deletedBookmarks || []), {created, deleted: Date.now()}]
+        episode.bookmarksModified = Date.now()
+    }
+
+    getVolume() {
+        const volume = this.metadata.local.volume
+        return volume === undefined ? 100 : volume
+    }
+
+    async storeVolume(volume: number) {
+        this.metadata.local.volume = volume
+        await this.saveMetadata({local: true})
+    }
+
+    // Records the position of an episode that is still playing.
+    // Checkpoints are saved in batches, see CHECKPOINT_SAVE_DELAY.
+    checkpointListeningPosition(feedUrl: string, guid: string, position: number) {
+        this.applyCheckpoint(feedUrl, guid, position)
+        this.unsavedCheckpoint = {feedUrl, guid, position}
+        if (!this.checkpointSaveTimeoutId) {
+            this.checkpointSaveTimeoutId = setTimeout(() => {
+                this.checkpointSaveTimeoutId = undefined
+                this.saveMetadata({roaming: true}).catch(e => {
+                    this.log(`Unable to save checkpoint: ${e.message}`)
+                })
+            }, CHECKPOINT_SAVE_DELAY)
+        }
+    }
+
+    private applyCheckpoint(feedUrl: string, guid: string, position: number) {
+        const episode = this.getOrCreateRoamingEpisode(feedUrl, guid)
+        episode.completed = false
+        episode.lastPosition = position
+        episode.lastPlayed = Date.now()
+    }
+
+    getPlayingEpisode() {
+        return this.metadata.local.playing
+    }
+
+    async storePlayingEpisode(episode: LocalPlayingEpisode | undefined) {
+        this.metadata.local.playing = episode
+        await this.saveMetadata({local: true})
     }
 
     async storeListeningStatus(feedUrl: string, guid: string, completed: boolean, position: number | undefined = undefined) {
@@ -0,0 +1,29 @@
+import * as assert from 'assert'
+import { readAudioDuration } from '../audioDuration'
+import { getFixturePath } from './util'
+
+// The fixtures only contain the headers the parsers need, with silence or zeros as audio data.
+suite('Audio duration', () => {
+    const cases: [string, number][] = [
+        ['sample.mp3', 100 * 1152 / 44100],
+        ['sample.m4a', 2.5],
+        ['sample.ogg', 2.5],
+        ['sample.opus', 2.5],
+        ['sample.flac', 2.5],
+        ['sample.wav', 2.5]
+    ]
+    for (const [filename, expected] of cases) {
+        test(`reads ${filename}`, async () => {
+            const duration = await readAudioDuration(getFixturePath('audio', filename))
+            assert.ok(duration !== undefined && Math.abs(duration - expected) < 0.01,
+                      `expected ${expected}, got ${duration}`)
+        })
+    }
+
+    test('does not read ADTS AAC as MP3', async () => {
+        const duration = await readAudioDuration(getFixturePath('audio', 'sample.aac'))
+        // left to ffprobe, if available
+        assert.ok(duration === undefined || Math.abs(duration - 50 * 1024 / 44100) < 0.1,
+                  `got ${duration}`)
+    })
+})
@@ -0,0 +1,88 @@
+import * as assert from 'assert'
+import * as fs from 'fs'
+import * as path from 'path'
+import { Storage, RestoredBackup } from '../storage'
+import { DownloadManager } from '../downloadManager'
+import { writeFileAtomic } from '../util'
+import { makeTempDir } from './util'
+
+const FEED_URL = 'https://example.com/feed.xml'
+
+function createStorage(storagePath: string) {
+    const downloads = new DownloadManager(path.join(storagePath, 'downloads'), {concurrency: 1}, () => {})
+    return new Storage(storagePath, undefined, downloads, () => {})
+}
+
+suite('Backups', () => {
+    let storagePath: string
+    let roamingPath: string
+
+    setup(() => {
+        storagePath = makeTempDir()
+        roamingPath = path.join(storagePath, 'roaming.json')
+    })
+
+    test('restores a corrupt file from the backup', async () => {
+        const storage = createStorage(storagePath)
+        await storage.loadMetadata()
+        storage.addToQueue(FEED_URL, 'episode-1')
+        await storage.saveMetadata()
+        fs.writeFileSync(roamingPath, '{"podcasts": {')
+
+        const restored: RestoredBackup[] = []
+        const reloaded = createStorage(storagePath)
+        reloaded.onDidRestoreBackup(r => restored.push(r))
+        await reloaded.loadMetadata()
+
+        assert.strictEqual(restored.length, 1)
+        assert.strictEqual(restored[0].backupPath, path.join(storagePath, 'backups', 'roaming.json.1'))
+        assert.strictEqual(fs.readFileSync(restored[0].corruptPath, 'utf-8'), '{"podcasts": {')
+        assert.deepStrictEqual(reloaded.getQueue(), [{feedUrl: FEED_URL, guid: 'episode-1'}])
+    })
+
+    test('starts with empty metadata without a valid backup', async () => {
+        fs.writeFileSync(roamingPath, '{"podcasts": {')
+        fs.mkdirSync(path.join(storagePath, 'backups'))
+        fs.writeFileSync(path.join(storagePath, 'backups', 'roaming.json.1'), 'not json')
+
+        const restored: RestoredBackup[] = []
+        const storage = createStorage(storagePath)
+        storage.onDidRestoreBackup(r => restored.push(r))
+        await storage.loadMetadata()
+
+        assert.strictEqual(restored.length, 1)
+        assert.strictEqual(restored[0].backupPath, undefined)
+        assert.ok(!fs.existsSync(roamingPath))
+        assert.ok(fs.existsSync(restored[0].corruptPath))
+        assert.deepStrictEqual(storage.getQueue(), [])
+    })
+
+    test('ignores the temporary file of an interrupted write', async () => {
+        const storage = createStorage(storagePath)
+        await storage.loadMetadata()
+        storage.addToQueue(FEED_URL, 'episode-1')
+        await storage.saveMetadata()
+        // as left behind when VS Code is killed before renaming
+        fs.writeFileSync(`${roamingPath}.1234-abcdef.tmp`, '{"podcasts": {')
+
+        const restored: RestoredBackup[] = []
+        const reloaded = createStorage(storagePath)
+        reloaded.onDidRestoreBackup(r => restored.push(r))
+        await reloaded.loadMetadata()
+
+        assert.strictEqual(restored.length, 0)
+        assert.deepStrictEqual(reloaded.getQueue(), [{feedUrl: FEED_URL, guid: 'episode-1'}])
+    })
+
+    test('removes the temporary file when a write fails', async () => {
+        const folder = makeTempDir()
+        // renaming over a folder fails
+        const filePath = path.join(folder, 'roaming.json')
+        fs.mkdirSync(filePath)
+        fs.writeFileSync(path.join(filePath, 'file'), '')
+
+        await assert.rejects(writeFileAtomic(filePath, '{}'))
+        assert.deepStrictEqual(fs.readdirSync(folder), ['roaming.json'])
+        assert.deepStrictEqual(fs.readdirSync(filePath), ['file'])
+    })
+})
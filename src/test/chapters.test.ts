@@ -0,0 +1,17 @@
+import * as assert from 'assert'
+import { parseNormalPlayTime } from '../chapters'
+
+suite('Chapters', () => {
+    test('parses normal play time', () => {
+        assert.strictEqual(parseNormalPlayTime('01:02:03.5'), 3723.5)
+        assert.strictEqual(parseNormalPlayTime('02:03'), 123)
+        assert.strictEqual(parseNormalPlayTime('45.5'), 45.5)
+        assert.strictEqual(parseNormalPlayTime(' 45 '), 45)
+    })
+
+    test('rejects invalid times', () => {
+        assert.strictEqual(parseNormalPlayTime(''), undefined)
+        assert.strictEqual(parseNormalPlayTime('1:2:3:4'), undefined)
+        assert.strictEqual(parseNormalPlayTime('abc'), undefined)
+    })
+})
@@ -0,0 +1,11 @@
+// Runs the tests inside the VS Code extension host, see `npm test`.
+// Test files are all files ending with .test.ts next to this one.
+
+import * as testRunner from 'vscode/lib/testrunner'
+
+testRunner.configure({
+    ui: 'tdd',
+    useColors: true
+})
+
+module.exports = testRunner
@@ -0,0 +1,83 @@
+import * as assert from 'assert'
+import * as fs from 'fs'
+import * as path from 'path'
+import { migrateLocalMetadata, migrateRoamingMetadata, LOCAL_METADATA_VERSION,
+         ROAMING_METADATA_VERSION } from '../migrations'
+import { Storage, RefusedMetadata } from '../storage'
+import { DownloadManager } from '../downloadManager'
+import { readJsonFixture, getFixturePath, makeTempDir } from './util'
+
+suite('Migrations', () => {
+    test('local 0 -> 1 adds the version', () => {
+        const data = migrateLocalMetadata(readJsonFixture('migrations', 'local.v0.json'), 'local.json')
+        assert.strictEqual(data.version, LOCAL_METADATA_VERSION)
+        assert.strictEqual(data.podcasts['https://example.com/feed.xml'].downloaded['episode-1'].filename,
+                           'abcdef123456.mp3')
+    })
+
+    test('local 1 -> 2 removes show notes', () => {
+        const data = migrateLocalMetadata(readJsonFixture('migrations', 'local.v1.json'), 'local.json')
+        assert.strictEqual(data.version, 2)
+        const episode = data.podcasts['https://example.com/feed.xml'].episodes['episode-1']
+        assert.strictEqual(episode.showNotes, undefined)
+        assert.strictEqual(episode.title, 'Episode 1')
+    })
+
+    test('roaming 0 -> 1 adds the queue', () => {
+        const data = migrateRoamingMetadata(readJsonFixture('migrations', 'roaming.v0.json'), 'roaming.json')
+        assert.strictEqual(data.version, 1)
+        assert.deepStrictEqual(data.queue, [])
+        assert.strictEqual(data.podcasts['https://example.com/feed.xml'].episodes['episode-1'].lastPosition, 600)
+    })
+
+    test('roaming 0 -> 1 keeps an existing queue', () => {
+        const data = migrateRoamingMetadata(readJsonFixture('migrations', 'roaming.v0-queue.json'), 'roaming.json')
+        assert.deepStrictEqual(data.queue, [{feedUrl: 'https://example.com/feed.xml', guid: 'episode-1'}])
+    })
+
+    test('migrates to the current versions', () => {
+        const local = migrateLocalMetadata(readJsonFixture('migrations', 'local.v0.json'), 'local.json')
+        const roaming = migrateRoamingMetadata(readJsonFixture('migrations', 'roaming.v0.json'), 'roaming.json')
+        assert.strictEqual(local.version, LOCAL_METADATA_VERSION)
+        assert.strictEqual(roaming.version, ROAMING_METADATA_VERSION)
+    })
+
+    test('leaves current versions unchanged', () => {
+        const data = migrateRoamingMetadata(readJsonFixture('migrations', 'roaming.v0.json'), 'roaming.json')
+        const json = JSON.stringify(data)
+        assert.strictEqual(JSON.stringify(migrateRoamingMetadata(data, 'roaming.json')), json)
+    })
+
+    test('refuses newer versions', () => {
+        assert.throws(() => migrateRoamingMetadata(readJsonFixture('migrations', 'roaming.v99.json'), 'roaming.json'),
+                      /newer version/)
+    })
+})
+
+suite('Storage with newer metadata', () => {
+    let storagePath: string
+    let storage: Storage
+
+    setup(() => {
+        storagePath = makeTempDir()
+        const downloads = new DownloadManager(path.join(storagePath, 'downloads'), {concurrency: 1}, () => {})
+        storage = new Storage(storagePath, undefined, downloads, () => {})
+    })
+
+    test('keeps running read-only', async () => {
+        const roamingPath = path.join(storagePath, 'roaming.json')
+        fs.copyFileSync(getFixturePath('migrations', 'roaming.v99.json'), roamingPath)
+        const json = fs.readFileSync(roamingPath, 'utf-8')
+        const refused: RefusedMetadata[] = []
+        storage.onDidRefuseMetadata(r => refused.push(r))
+
+        await storage.loadMetadata()
+        assert.strictEqual(refused.length, 1)
+        assert.strictEqual(refused[0].filePath, roamingPath)
+
+        storage.addToQueue('https://example.com/feed.xml', 'episode-1')
+        await storage.saveMetadata()
+        assert.strictEqual(fs.readFileSync(roamingPath, 'utf-8'), json)
+        assert.ok(fs.existsSync(path.join(storagePath, 'local.json')))
+    })
+})
@@ -0,0 +1,143 @@
+import * as assert from 'assert'
+import * as fs from 'fs'
+import * as path from 'path'
+import { spawn, ChildProcess } from 'child_process'
+import * as dbus from 'dbus-next'
+import { pid } from 'process'
+import { Disposable } from 'vscode'
+import { MprisService } from '../mpris'
+import { Player } from '../player'
+import { Storage } from '../storage'
+import { DownloadManager } from '../downloadManager'
+import { FakeBackend } from '../backends/fakeBackend'
+import { AudioBackendStatus } from '../backends/audioBackend'
+import { PlayerConfiguration } from '../types'
+import { getFixturePath, makeTempDir } from './util'
+
+const FEED_URL = 'https://example.com/feed.xml'
+const SERVICE_NAME = `org.mpris.MediaPlayer2.vscode_podcasts.instance${pid}`
+const OBJECT_PATH = '/org/mpris/MediaPlayer2'
+const PLAYER_INTERFACE = 'org.mpris.MediaPlayer2.Player'
+
+const PLAYER_CFG: PlayerConfiguration = {
+    profiles: [],
+    streamingMode: 'downloadThenPlay',
+    checkpointInterval: 0,
+    resumeOnStartup: 'never',
+    smartResumeMinPause: 60,
+    smartResumeMaxRewind: 0,
+    mpris: true
+}
+
+// Starts a private session bus, so that the tests neither need nor disturb a desktop session.
+function startBus(): Promise<{ daemon: ChildProcess, address: string }> {
+    return new Promise((resolve, reject) => {
+        const daemon = spawn('dbus-daemon', ['--session', '--print-address', '--nofork'])
+        daemon.on('error', reject)
+        daemon.stdout.once('data', (data: Buffer) => {
+            resolve({ daemon, address: data.toString().trim() })
+        })
+    })
+}
+
+suite('MPRIS', function () {
+    let daemon: ChildProcess | undefined
+    let busAddress: string
+    let disposables: Disposable[]
+    let backend: FakeBackend
+    let player: Player
+    let client: dbus.MessageBus
+
+    suiteSetup(async function () {
+        if (process.platform !== 'linux') {
+            this.skip()
+        }
+        try {
+            const bus = await startBus()
+            daemon = bus.daemon
+            busAddress = bus.address
+        } catch (e) {
+            // dbus-daemon is not installed
+            this.skip()
+        }
+    })
+
+    suiteTeardown(() => {
+        if (daemon) {
+            daemon.kill()
+        }
+    })
+
+    setup(async () => {
+        const storagePath = makeTempDir()
+        for (const filename of ['local.json', 'roaming.json']) {
+            fs.copyFileSync(getFixturePath('player', filename), path.join(storagePath, filename))
+        }
+        fs.mkdirSync(path.join(storagePath, 'enclosures'))
+        fs.writeFileSync(path.join(storagePath, 'enclosures', 'episode-1.mp3'), '')
+        const downloads = new DownloadManager(path.join(storagePath, 'downloads'), {concurrency: 1}, () => {})
+        const storage = new Storage(storagePath, undefined, downloads, () => {})
+        await storage.loadMetadata()
+
+        disposables = []
+        backend = new FakeBackend()
+        player = new Player(backend, storage, PLAYER_CFG, () => {}, disposables)
+        const mpris = new MprisService(player, backend, storage, () => {}, disposables)
+        await mpris.start(busAddress)
+        client = dbus.sessionBus({ busAddress })
+    })
+
+    teardown(() => {
+        client.disconnect()
+        backend.stop()
+        Disposable.from(...disposables).dispose()
+    })
+
+    async function getProperty(name: string) {
+        const obj = await client.getProxyObject(SERVICE_NAME, OBJECT_PATH)
+        const props = obj.getInterface('org.freedesktop.DBus.Properties')
+        const variant: dbus.Variant = await props.Get(PLAYER_INTERFACE, name)
+        return variant.value
+    }
+
+    async function getPlayerInterface() {
+        const obj = await client.getProxyObject(SERVICE_NAME, OBJECT_PATH)
+        return obj.getInterface(PLAYER_INTERFACE)
+    }
+
+    test('publishes the playback status and metadata', async () => {
+        assert.strictEqual(await getProperty('PlaybackStatus'), 'Stopped')
+        await player.play(FEED_URL, 'episode-1')
+        assert.strictEqual(await getProperty('PlaybackStatus'), 'Playing')
+        const metadata = await getProperty('Metadata')
+        assert.strictEqual(metadata['xesam:title'].value, 'Episode 1')
+        assert.strictEqual(metadata['xesam:album'].value, 'Example Podcast')
+    })
+
+    test('pauses and resumes via PlayPause', async () => {
+        await player.play(FEED_URL, 'episode-1')
+        const iface = await getPlayerInterface()
+        await iface.PlayPause()
+        assert.strictEqual(backend.status, AudioBackendStatus.PAUSED)
+        assert.strictEqual(await getProperty('PlaybackStatus'), 'Paused')
+        await iface.PlayPause()
+        assert.strictEqual(backend.status, AudioBackendStatus.PLAYING)
+    })
+
+    test('signals Seeked once the player has moved', async () => {
+        await player.play(FEED_URL, 'episode-1')
+        const iface = await getPlayerInterface()
+        const seeked = new Promise<number>(resolve => {
+            iface.on('Seeked', (position: any) => resolve(Number(position)))
+        })
+        await iface.SetPosition(await getTrackId(), 600 * 1000 * 1000)
+        assert.strictEqual(backend.position, 600)
+        // the player reports positions once per second
+        assert.strictEqual(await seeked, 600 * 1000 * 1000)
+    })
+
+    async function getTrackId() {
+        const metadata = await getProperty('Metadata')
+        return metadata['mpris:trackid'].value
+    }
+})
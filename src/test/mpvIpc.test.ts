@@ -0,0 +1,51 @@
+import * as assert from 'assert'
+import * as net from 'net'
+import * as path from 'path'
+import { MpvIpcClient, MpvPropertyChange } from '../backends/mpvIpc'
+import { makeTempDir } from './util'
+
+suite('mpv IPC', function () {
+    let server: net.Server
+    let ipcPath: string
+
+    setup(function (done) {
+        if (process.platform === 'win32') {
+            this.skip()
+        }
+        ipcPath = path.join(makeTempDir(), 'mpv.sock')
+        server = net.createServer()
+        server.listen(ipcPath, done)
+    })
+
+    teardown(done => {
+        server.close(() => done())
+    })
+
+    test('reads messages split across chunks and skips garbage', async () => {
+        server.on('connection', socket => {
+            // lines as sent by mpv, cut at arbitrary points
+            socket.write('{"event":"property-change","id":1,"name":"time-pos","da')
+            socket.write('ta":52.501000}\n{"data":null,"request_id":0,"error":"success"}\n{"eve')
+            socket.write('nt":"playback-restart"}\nnot json\n\n{"request_id":0,"error":"property unavailable"}\n')
+            socket.write('{"event":"property-change","id":2,"name":"pause","data":true}\n{"event":"prop')
+        })
+        const logs: string[] = []
+        const client = new MpvIpcClient(ipcPath, msg => logs.push(msg))
+        const changes: MpvPropertyChange[] = []
+        client.onPropertyChange(change => changes.push(change))
+        await client.connect()
+        for (let i = 0; i < 100 && changes.length < 2; i++) {
+            await new Promise(resolve => setTimeout(resolve, 10))
+        }
+        client.dispose()
+
+        assert.deepStrictEqual(changes, [
+            { name: 'time-pos', data: 52.501 },
+            { name: 'pause', data: true }
+        ])
+        assert.deepStrictEqual(logs, [
+            'mpv IPC: unable to parse "not json"',
+            'mpv IPC: command failed (property unavailable)'
+        ])
+    })
+})
@@ -0,0 +1,166 @@
+import * as assert from 'assert'
+import * as fs from 'fs'
+import * as path from 'path'
+import { Disposable } from 'vscode'
+import { Player } from '../player'
+import { Storage } from '../storage'
+import { DownloadManager } from '../downloadManager'
+import { FakeBackend } from '../backends/fakeBackend'
+import { AudioBackendStatus, AudioBackendCommand } from '../backends/audioBackend'
+import { PlayerConfiguration, PlayerStatus, PlayerState } from '../types'
+import { getFixturePath, makeTempDir } from './util'
+
+const FEED_URL = 'https://example.com/feed.xml'
+
+const PLAYER_CFG: PlayerConfiguration = {
+    profiles: [],
+    streamingMode: 'downloadThenPlay',
+    checkpointInterval: 0,
+    resumeOnStartup: 'never',
+    smartResumeMinPause: 60,
+    smartResumeMaxRewind: 0,
+    mpris: false
+}
+
+// Waits for asynchronous work started by the player, like playing the next episode.
+async function waitFor(condition: () => boolean) {
+    for (let i = 0; i < 100 && !condition(); i++) {
+        await new Promise(resolve => setTimeout(resolve, 10))
+    }
+    assert.ok(condition(), 'condition not met in time')
+}
+
+suite('Player', () => {
+    let disposables: Disposable[]
+    let storage: Storage
+    let backend: FakeBackend
+    let player: Player
+    let states: PlayerState[]
+    let storagePath: string
+    let logs: string[]
+
+    setup(async () => {
+        storagePath = makeTempDir()
+        for (const filename of ['local.json', 'roaming.json']) {
+            fs.copyFileSync(getFixturePath('player', filename), path.join(storagePath, filename))
+        }
+        fs.mkdirSync(path.join(storagePath, 'enclosures'))
+        for (const filename of ['episode-1.mp3', 'episode-2.mp3']) {
+            fs.writeFileSync(path.join(storagePath, 'enclosures', filename), '')
+        }
+        const downloads = new DownloadManager(path.join(storagePath, 'downloads'), {concurrency: 1}, () => {})
+        storage = new Storage(storagePath, undefined, downloads, () => {})
+        await storage.loadMetadata()
+
+        disposables = []
+        backend = new FakeBackend()
+        logs = []
+        player = new Player(backend, storage, PLAYER_CFG, msg => logs.push(msg), disposables)
+        states = []
+        disposables.push(player.onStateChange(state => states.push(state)))
+    })
+
+    teardown(() => {
+        backend.stop()
+        Disposable.from(...disposables).dispose()
+    })
+
+    test('downloads, opens and plays an episode', async () => {
+        await player.play(FEED_URL, 'episode-1')
+        assert.deepStrictEqual(states.slice(0, 3).map(state => state.status),
+                               [PlayerStatus.DOWNLOADING, PlayerStatus.OPENING, PlayerStatus.PLAYING])
+        assert.strictEqual(player.status, PlayerStatus.PLAYING)
+        assert.strictEqual(backend.duration, 3600)
+    })
+
+    test('stores the position when stopped', async () => {
+        await player.play(FEED_URL, 'episode-1')
+        backend.setScript([{ position: 600 }])
+        backend.runScript()
+        player.stop()
+
+        assert.strictEqual(player.status, PlayerStatus.STOPPED)
+        const episode = storage.getEpisode(FEED_URL, 'episode-1').roaming!
+        assert.strictEqual(episode.completed, false)
+        assert.strictEqual(episode.lastPosition, 600)
+    })
+
+    test('resumes from the stored position', async () => {
+        await player.play(FEED_URL, 'episode-1')
+        backend.setScript([{ position: 600 }])
+        backend.runScript()
+        player.stop()
+
+        await player.play(FEED_URL, 'episode-1')
+        assert.strictEqual(backend.position, 600)
+    })
+
+    test('completes the episode at the end and plays the next one in the queue', async () => {
+        storage.addToQueue(FEED_URL, 'episode-2')
+        await player.play(FEED_URL, 'episode-1')
+        backend.setScript([
+            { position: 3600 },
+            { status: AudioBackendStatus.STOPPED }
+        ])
+        backend.runScript()
+
+        assert.strictEqual(storage.getEpisode(FEED_URL, 'episode-1').roaming!.completed, true)
+        await waitFor(() => player.getGuid() === 'episode-2' && player.status === PlayerStatus.PLAYING)
+        assert.deepStrictEqual(storage.getQueue(), [])
+    })
+
+    test('does not play the next episode when stopped', async () => {
+        storage.addToQueue(FEED_URL, 'episode-2')
+        await player.play(FEED_URL, 'episode-1')
+        player.stop()
+
+        assert.strictEqual(player.status, PlayerStatus.STOPPED)
+        assert.strictEqual(player.getGuid(), 'episode-1')
+        assert.strictEqual(storage.getQueue().length, 1)
+    })
+
+    test('pauses and resumes', async () => {
+        await player.play(FEED_URL, 'episode-1')
+        backend.setScript([{ position: 600 }])
+        backend.runScript()
+        player.pause()
+        assert.strictEqual(player.status, PlayerStatus.PAUSED)
+        const paused = states[states.length - 1]
+        assert.strictEqual(paused.elapsed, 600)
+        assert.strictEqual(paused.duration, 3600)
+        player.pause()
+        assert.strictEqual(player.status, PlayerStatus.PLAYING)
+        assert.deepStrictEqual(backend.commands.map(c => c.cmd), [AudioBackendCommand.PAUSE, AudioBackendCommand.PAUSE])
+    })
+
+    test('changes the volume while paused', async () => {
+        await player.play(FEED_URL, 'episode-1')
+        player.pause()
+        player.setVolume(50)
+        assert.strictEqual(player.status, PlayerStatus.PAUSED)
+        assert.strictEqual(states[states.length - 1].volume, 50)
+    })
+
+    test('counts down the sleep timer while paused', async () => {
+        await player.play(FEED_URL, 'episode-1')
+        player.pause()
+        player.setSleepTimer('minutes', 10)
+        const count = states.length
+        await new Promise(resolve => setTimeout(resolve, 1100))
+        assert.ok(states.length > count)
+        const paused = states[states.length - 1]
+        assert.strictEqual(paused.status, PlayerStatus.PAUSED)
+        assert.ok(paused.sleepTimer!.remaining! < 600, `got ${paused.sleepTimer!.remaining}`)
+    })
+
+    test('logs failed saves', async () => {
+        // renaming over a non-empty folder fails
+        const localPath = path.join(storagePath, 'local.json')
+        fs.unlinkSync(localPath)
+        fs.mkdirSync(localPath)
+        fs.writeFileSync(path.join(localPath, 'file'), '')
+
+        await player.play(FEED_URL, 'episode-1')
+        await waitFor(() => logs.some(msg => msg.startsWith('Unable to save metadata')))
+    })
+})
@@ -0,0 +1,75 @@
+import * as assert from 'assert'
+import { mergeRoamingMetadata, DELETED_BOOKMARK_RETENTION } from '../roamingMerge'
+import { RoamingStorageMetadata, RoamingEpisodeMetadata } from '../storage'
+import { ROAMING_METADATA_VERSION } from '../migrations'
+
+const FEED_URL = 'https://example.com/feed.xml'
+
+function withEpisode(episode: RoamingEpisodeMetadata): RoamingStorageMetadata {
+    return {
+        version: ROAMING_METADATA_VERSION,
+        podcasts: {
+            [FEED_URL]: {
+                starred: true,
+                episodes: { 'episode-1': episode }
+            }
+        },
+        queue: []
+    }
+}
+
+function mergeEpisodes(other: RoamingEpisodeMetadata, preferred: RoamingEpisodeMetadata, now = 10000) {
+    const merged = mergeRoamingMetadata(withEpisode(other), withEpisode(preferred), now)
+    return merged.podcasts[FEED_URL].episodes['episode-1']
+}
+
+suite('Roaming merge', () => {
+    test('takes the listening status that was played last', () => {
+        const merged = mergeEpisodes(
+            { completed: false, lastPosition: 600, lastPlayed: 2000 },
+            { completed: false, lastPosition: 300, lastPlayed: 1000 })
+        assert.strictEqual(merged.lastPosition, 600)
+    })
+
+    test('keeps bookmarks added on either side', () => {
+        const merged = mergeEpisodes(
+            { completed: false, bookmarks: [{ position: 600, created: 2000 }], bookmarksModified: 2000 },
+            { completed: false, bookmarks: [{ position: 300, created: 1000 }], bookmarksModified: 1000 })
+        assert.deepStrictEqual(merged.bookmarks, [{ position: 300, created: 1000 }, { position: 600, created: 2000 }])
+        assert.strictEqual(merged.bookmarksModified, 2000)
+    })
+
+    test('does not restore removed bookmarks', () => {
+        const merged = mergeEpisodes(
+            { completed: false, bookmarks: [{ position: 300, created: 1000 }, { position: 600, created: 2000 }] },
+            { completed: false, bookmarks: [{ position: 600, created: 2000 }],
+              deletedBookmarks: [{ created: 1000, deleted: 3000 }] })
+        assert.deepStrictEqual(merged.bookmarks, [{ position: 600, created: 2000 }])
+        assert.deepStrictEqual(merged.deletedBookmarks, [{ created: 1000, deleted: 3000 }])
+    })
+
+    test('removes bookmarks removed on the other side', () => {
+        const merged = mergeEpisodes(
+            { completed: false, deletedBookmarks: [{ created: 1000, deleted: 3000 }] },
+            { completed: false, bookmarks: [{ position: 300, created: 1000 }] })
+        assert.strictEqual(merged.bookmarks, undefined)
+    })
+
+    test('forgets old removals once both sides have them', () => {
+        const deletedBookmarks = [{ created: 1000, deleted: 3000 }, { created: 2000, deleted: 4000 }]
+        const merged = mergeEpisodes(
+            { completed: false, deletedBookmarks },
+            { completed: false, deletedBookmarks },
+            3000 + DELETED_BOOKMARK_RETENTION)
+        assert.deepStrictEqual(merged.deletedBookmarks, [{ created: 2000, deleted: 4000 }])
+    })
+
+    test('takes the queue that was modified last', () => {
+        const other = withEpisode({ completed: false })
+        other.queue = [{ feedUrl: FEED_URL, guid: 'episode-1' }]
+        other.queueModified = 2000
+        const preferred = withEpisode({ completed: false })
+        preferred.queueModified = 1000
+        assert.deepStrictEqual(mergeRoamingMetadata(other, preferred).queue, other.queue)
+    })
+})
@@ -0,0 +1,95 @@
+import * as assert from 'assert'
+import { toShellPlayerProfile, getShellPlayerProfile, parseMpvPropertyChange, StatusAnswer } from '../backends/shellProfiles'
+import { AudioBackendCommand } from '../backends/audioBackend'
+
+suite('Shell player profiles', () => {
+    test('only has command info for the commands of a custom profile', () => {
+        const profile = toShellPlayerProfile({
+            executable: '/usr/bin/myplayer',
+            args: ['%PATH%'],
+            commands: {
+                pause: 'p',
+                skipForward: 'f'
+            }
+        })
+        assert.deepStrictEqual(profile.commandInfo, {
+            [AudioBackendCommand.SKIP_FORWARD]: 30
+        })
+    })
+
+    test('has no commands without configured commands', () => {
+        const profile = toShellPlayerProfile({
+            executable: 'myplayer',
+            args: ['%PATH%']
+        })
+        assert.strictEqual(profile.commands, undefined)
+        assert.strictEqual(profile.commandInfo, undefined)
+    })
+
+    // Lines as written by the players, followed by truncated and unrelated ones.
+    // undefined means the line is not an answer and is passed on to the log.
+    const answerCases: [string, [string, StatusAnswer | undefined][]][] = [
+        ['mplayer', [
+            ['ANS_TIME_POSITION=52.5', { elapsed: 52.5 }],
+            ['ANS_pause=yes', { paused: true }],
+            ['ANS_pause=no', { paused: false }],
+            ['ANS_speed=1.20', { speed: 1.2 }],
+            ['ANS_LENGTH=1863.00', { duration: 1863 }],
+            ['ANS_volume=80.000000', { volume: 80 }],
+            ['ANS_mute=yes', { muted: true }],
+            ['ANS_ERROR=PROPERTY_UNAVAILABLE', {}],
+            ['EOF code: 1  ', { ended: true }],
+            ['ANS_LENGTH=', {}],
+            ['ANS_TIME_POSI', undefined],
+            ['A:  52.5 (52.4) of 1863.0 (31:03.0)  0.0% 1.2x', undefined],
+            ['Playing /home/user/episode.mp3.', undefined],
+            ['', undefined]
+        ]],
+        ['mpg123', [
+            ['@R MPG123 (ThOr) v10', {}],
+            ['@I ID3v2.title:Episode 1', {}],
+            ['@S 1.0 3 44100 Joint-Stereo 0 417 2 0 0 0 128 0 1', {}],
+            ['@F 384 3651 10.03 95.37', { elapsed: 10.03, duration: 10.03 + 95.37 }],
+            ['@P 0', { ended: true }],
+            ['@P 1', { paused: true }],
+            ['@P 2', { paused: false }],
+            ['@P 3', { ended: true }],
+            ['@PITCH 0.200000', { speed: 1.2 }],
+            ['@PITCH -0.200000', { speed: 0.8 }],
+            ['@V 80.000000%', { volume: 80 }],
+            ['@F 384 36', {}],
+            ['@V .%', {}],
+            ['@PITCH', {}],
+            ['@E Unknown command or no arguments: foo', undefined],
+            ['High Performance MPEG 1.0/2.0/2.5 Audio Player for Layers 1, 2 and 3', undefined],
+            ['', undefined]
+        ]]
+    ]
+    for (const [playerName, lines] of answerCases) {
+        test(`parses ${playerName} answers`, () => {
+            const parseAnswer = getShellPlayerProfile(playerName).parseAnswer!
+            for (const [line, expected] of lines) {
+                assert.deepStrictEqual(parseAnswer(line), expected, line)
+            }
+        })
+    }
+
+    test('parses mpv property changes', () => {
+        // event messages as sent by mpv, the data is left out while a property is unavailable
+        const messages: [string, StatusAnswer][] = [
+            ['{"event":"property-change","id":1,"name":"time-pos","data":52.501000}', { elapsed: 52.501 }],
+            ['{"event":"property-change","id":1,"name":"time-pos"}', {}],
+            ['{"event":"property-change","id":2,"name":"pause","data":true}', { paused: true }],
+            ['{"event":"property-change","id":3,"name":"speed","data":1.200000}', { speed: 1.2 }],
+            ['{"event":"property-change","id":4,"name":"duration","data":1863.024000}', { duration: 1863.024 }],
+            ['{"event":"property-change","id":4,"name":"duration"}', {}],
+            ['{"event":"property-change","id":5,"name":"volume","data":80.000000}', { volume: 80 }],
+            ['{"event":"property-change","id":6,"name":"mute","data":false}', { muted: false }],
+            ['{"event":"property-change","id":7,"name":"chapter","data":2}', {}]
+        ]
+        for (const [message, expected] of messages) {
+            const msg = JSON.parse(message)
+            assert.deepStrictEqual(parseMpvPropertyChange({ name: msg.name, data: msg.data }), expected, message)
+        }
+    })
+})
@@ -0,0 +1,18 @@
+import * as fs from 'fs'
+import * as os from 'os'
+import * as path from 'path'
+
+// Fixtures are not compiled, tests run from out/test/.
+export const FIXTURES_PATH = path.resolve(__dirname, '..', '..', 'src', 'test', 'fixtures')
+
+export function getFixturePath(...names: string[]) {
+    return path.join(FIXTURES_PATH, ...names)
+}
+
+export function readJsonFixture(...names: string[]): any {
+    return JSON.parse(fs.readFileSync(getFixturePath(...names), 'utf-8'))
+}
+
+export function makeTempDir() {
+    return fs.mkdtempSync(path.join(os.tmpdir(), 'podcasts-test-'))
+}
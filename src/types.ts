@@ -1,11 +1,34 @@
+export interface PlayerProfileConfiguration {
+    executable: string
+    args: string[]
+    commands?: {[command: string]: string} // e.g. pause, skipForward, see package.json
+    statusRegex?: string
+    streaming?: boolean
+}
+
+export type StreamingMode = 'downloadThenPlay' | 'streamOnly' | 'streamAndKeep'
+
 export interface PlayerConfiguration {
     path?: string
+    profiles: PlayerProfileConfiguration[]
+    streamingMode: StreamingMode
+    checkpointInterval: number // seconds, 0 = only when pausing or stopping
+    resumeOnStartup: ResumeOnStartupMode
+    smartResumeMinPause: number // seconds
+    smartResumeMaxRewind: number // seconds, 0 = disabled
+    mpris: boolean // Linux only
 }
 
+export type ResumeOnStartupMode = 'auto' | 'prompt' | 'never'
+
 export interface StorageConfiguration {
     roamingPath?: string
 }
 
+export interface DownloadConfiguration {
+    concurrency: number
+}
+
 export interface SearchConfiguration {
     genres: string[]
     sortByDate: boolean
@@ -17,6 +40,7 @@ export interface SearchConfiguration {
 export interface Configuration {
     player: PlayerConfiguration
     storage: StorageConfiguration
+    download: DownloadConfiguration
     search: SearchConfiguration
 }
 
@@ -34,4 +58,12 @@ export interface PlayerState {
     duration?: number,
     elapsed?: number
     speed?: number
-}
\ No newline at end of file
+    chapter?: string // title of the current chapter
+    volume?: number // percentage
+    muted?: boolean
+    sleepTimer?: {
+        remaining?: number // seconds, unknown if the episode duration is unknown
+    }
+}
+
+export type SleepTimerMode = 'minutes' | 'endOfEpisode' | 'endOfChapter'
\ No newline at end of file
@@ -1,18 +1,14 @@
 import * as fs from 'fs';
 import * as path from 'path';
 import { promisify } from 'util';
-import * as tmp from 'tmp';
-import * as request from 'request';
-import * as requestProgress from 'request-progress';
-import mp3Duration = require('./3rdparty/mp3-duration.js')
-import { CancellationToken, Disposable } from 'vscode';
+import { Disposable } from 'vscode';
 import { debounce } from './3rdparty/git/decorators';
+import { readAudioDuration } from './audioDuration';
 
-const copyFile = promisify(fs.copyFile)
 const unlink = promisify(fs.unlink)
+const rename = promisify(fs.rename)
 export const readFile = promisify(fs.readFile)
 export const writeFile = promisify(fs.writeFile)
-const tmpName = promisify(tmp.tmpName)
 
 export function toHumanDuration(sec?: number, fallback?: string): string {
     if (sec === undefined) {
@@ -54,71 +50,53 @@ export function toHumanTimeAgo(timestamp: number) {
     return Math.round(years) + ` year${plural} ago`
 }
 
+export function toHumanSize(bytes: number): string {
+    if (bytes < 1024 * 1024) {
+        return Math.round(bytes / 1024) + ' KB'
+    }
+    return toFixed(bytes / 1024 / 1024, 1) + ' MB'
+}
+
+export function toHHMMSS(sec: number): string {
+    return new Date(sec * 1000).toISOString().substr(11, 8)
+}
+
+// Parses "SS", "MM:SS" or "HH:MM:SS" into seconds.
+export function fromHHMMSS(str: string): number | undefined {
+    const parts = str.trim().split(':')
+    if (parts.length > 3 || parts.some(part => !/^\d+(\.\d+)?$/.test(part))) {
+        return undefined
+    }
+    return parts.reduce((sec, part) => sec * 60 + parseFloat(part), 0)
+}
+
 // https://stackoverflow.com/a/661757
 export function toFixed(value: number, precision: number): string {
     var power = Math.pow(10, precision)
     return (Math.round(value * power) / power).toFixed(precision)
 }
 
-export async function downloadFile(url: string, path: string, 
-        onProgress?: (ratio: number) => void, token?: CancellationToken): Promise<void> {
-    const tmpPath = await tmpName({})
-    const file = fs.createWriteStream(tmpPath)
+// Writes to a temporary file in the same folder first and then renames it,
+// so that readers never see a partially written file.
+export async function writeFileAtomic(filePath: string, data: string) {
+    const tmpPath = `${filePath}.${process.pid}-${Math.random().toString(36).substring(2, 8)}.tmp`
     try {
-        await new Promise((resolve, reject) => {
-            const req = requestProgress(request({
-                url: url,
-                headers: {
-                    'User-Agent': 'Node'
-                }
-            }))
-            if (token) {
-                token.onCancellationRequested(e => {
-                    req.abort()
-                    file.close()
-                    reject(new Error('Download cancelled'))
-                })
-            }
-            req.on('error', e => {
-                file.close()
-                reject(e)
-            })
-            if (onProgress) {
-                req.on('progress', state => {
-                    if (state.percent) {
-                        onProgress(state.percent)
-                    }
-                })
-            }
-            req.on('response', response => {
-                if (response.statusCode !== 200) {
-                    file.close()
-                    reject(new Error(`HTTP status was ${response.statusCode}, expected 200.`))
-                    return
-                }
-                file.on('error', e => {
-                    file.close()
-                    reject(e)
-                })
-                file.on('finish', resolve)
-                req.pipe(file)
-            })
-        })
-        await copyFile(tmpPath, path)
-    } finally {
-        await unlink(tmpPath)
+        await writeFile(tmpPath, data, 'utf-8')
+        await rename(tmpPath, filePath)
+    } catch (e) {
+        if (fs.existsSync(tmpPath)) {
+            await unlink(tmpPath)
+        }
+        throw e
     }
 }
 
 const durationCache = new Map<string, number>()
 export async function getAudioDuration(audioPath: string): Promise<number> {
     if (!durationCache.has(audioPath)) {
-        if (path.extname(audioPath) !== '.mp3') {
-            throw new Error('Cannot determine audio duration, only MP3 supported')
-        }
-        const duration = await mp3Duration(audioPath)
-        if (duration == 0) {
-            throw new Error('Unable to extract audio duration')
+        const duration = await readAudioDuration(audioPath)
+        if (duration === undefined) {
+            throw new Error(`Unable to determine audio duration of ${path.basename(audioPath)}`)
         }
         durationCache.set(audioPath, duration)
     }
@@ -135,14 +113,18 @@ export class FileWatcher {
         this.disposable = new Disposable(() => this.watcher.close())
     }
 
-    update(filename: string) {
+    update(filePath: string) {
         if (this.watcher) {
             this.watcher.close()
         }
-        this.watcher = fs.watch(filename, {
+        // The folder is watched as a watcher on the file itself stops firing once the file
+        // is replaced by renaming another file over it, like writeFileAtomic and Dropbox do.
+        const filename = path.basename(filePath)
+        this.watcher = fs.watch(path.dirname(filePath), {
             persistent: false
-        }, (event: string) => {
-            if (event === 'change') {
+        }, (event: string, changedFilename: string | null) => {
+            // the filename is not provided on all platforms
+            if (!changedFilename || changedFilename === filename) {
                 this.onChangeDebounced()
             }
         })
@@ -22,7 +22,12 @@ const config = {
     },
     devtool: 'source-map',
     externals: {
-        vscode: "commonjs vscode" // the vscode-module is created on-the-fly and must be excluded. Add other modules that cannot be webpack'ed, 📖 -> https://webpack.js.org/configuration/externals/
+        vscode: "commonjs vscode", // the vscode-module is created on-the-fly and must be excluded. Add other modules that cannot be webpack'ed, 📖 -> https://webpack.js.org/configuration/externals/
+        // Optional dependencies of dbus-next, not shipped as node_modules is excluded from the package.
+        // Without usocket, dbus-next uses net sockets for "unix:path=" addresses but cannot connect to
+        // "unix:abstract=" ones, see MprisService.start(). x11 is only required by an unused function.
+        usocket: "commonjs usocket",
+        x11: "commonjs x11"
     },
     resolve: { // support reading TypeScript and JavaScript files, 📖 -> https://github.com/TypeStrong/ts-loader
         extensions: ['.ts', '.js']